@@ -24,6 +24,25 @@ import topbar from "topbar";
 import {getHooks} from "live_svelte"
 import { LiveViewTiptapHook } from "elim";
 import SvelteHooks from "./hooks/svelte_hooks";
+import { mount } from "svelte";
+import { backoff, channels } from "../svelte/lib/api/channels";
+import { connection } from "../svelte/lib/api/connection";
+import { session } from "../svelte/lib/api/session";
+import ConnectionBanner from "../svelte/layout/ConnectionBanner.svelte";
+
+// Serve /api/v1 from memory in development: VITE_MOCK_API=true, ?mock_api in the URL,
+// or localStorage "kyozo-mock-api" = "true". The instance is exposed as window.mockApi.
+if (process.env.NODE_ENV === "development") {
+  const mockRequested =
+    import.meta.env.VITE_MOCK_API === "true" ||
+    new URLSearchParams(window.location.search).has("mock_api") ||
+    localStorage.getItem("kyozo-mock-api") === "true";
+
+  if (mockRequested) {
+    const { installMockApi } = await import("../svelte/lib/api/mock/server");
+    installMockApi();
+  }
+}
 
 // import * as Components from "../svelte/**/*.svelte"
 const modules: Record<string, any> = import.meta.glob('../svelte/**/*.svelte', {
@@ -76,19 +95,30 @@ console.log('=== LIVE_SVELTE DEBUG END ===');
 //   }
 // }
 
-function reconnectLiveViewIfDisconnected() {
-  if (window.liveSocket && !window.liveSocket.isConnected()) {
-    window.location.reload();
-  }
-}
-
 useRegisterServiceWorker("/sw.js");
 
 const csrfToken = document.querySelector("meta[name='csrf-token']")?.getAttribute("content")
+
+// The API token the pages render is renewed from the cookie session (DirupWeb.SessionTokenController)
+session.configure({
+  refresh: async () => {
+    const response = await fetch("/session/token", {
+      method: "POST",
+      credentials: "same-origin",
+      headers: { "X-CSRF-Token": csrfToken ?? "" },
+    });
+    if (!response.ok) return null;
+    const { token, expires_in } = await response.json();
+    return { token, expiresAt: Date.now() + expires_in * 1000 };
+  },
+});
+
 const liveSocket = new LiveSocket("/live", Socket, {
   longPollFallbackMs: 2500,
   hooks: { ...hooks, LiveViewTiptapHook },
   params: { _csrf_token: csrfToken },
+  // Same backoff as the channel socket instead of Phoenix's fixed steps
+  reconnectAfterMs: (tries: number) => backoff(tries, 1_000, 30_000),
 });
 
 
@@ -121,15 +151,13 @@ liveSocket.getSocket().onOpen(async () => {
   }
 });
 
-// Check for when the page becomes visible and refresh to ensure the socket is
-// reconnected. This is mainly for the case where a user switches away from the
-// app window and returns after an extended period where the socket may have
-// been disconnected.
-window.addEventListener("visibilitychange", () => {
-  if (document.visibilityState === "visible") {
-    reconnectLiveViewIfDisconnected();
-  }
-});
+// Reconnect dropped sockets in place (right away when the tab becomes visible or
+// the network returns) and refetch whatever went stale, instead of reloading the
+// page and losing unsaved work. A banner shows while reconnecting.
+connection.watchLiveSocket(liveSocket);
+connection.watchChannels(channels);
+connection.start();
+mount(ConnectionBanner, { target: document.body });
 
 // The lines below enable quality of life phoenix_live_reload
 // development features:
@@ -2,13 +2,34 @@ import { mount } from 'svelte'
 import WorkspacesApp from '../../svelte/apps/WorkspacesApp.svelte'
 import TeamsApp from '../../svelte/apps/TeamsApp.svelte'
 import PortalApp from '../../svelte/apps/PortalApp.svelte'
+import { parseJSON, validate, validateList } from '../../svelte/lib/api/validation'
+import { session } from '../../svelte/lib/api/session'
 // import ContainerDashboard from '../../svelte/services/ContainerDashboard.svelte'
 
+// LiveView assigns arrive as JSON in data-* attributes; validate them like API payloads
+function readUser(el) {
+  const user = parseJSON(el.dataset.currentUser, null, 'data-current-user')
+  return user && validate('User', user, 'data-current-user')
+}
+
+// The server-rendered token becomes the session token; a different one than the stored
+// token means another user signed in, which resets the stores
+function readToken(el, currentUser) {
+  const apiToken = el.dataset.apiToken
+  if (apiToken) session.login({ token: apiToken, user: currentUser })
+  return apiToken
+}
+
+function readList(el, key, entity) {
+  const attribute = `data-${key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`
+  return validateList(entity, parseJSON(el.dataset[key], [], attribute), attribute)
+}
+
 export const SvelteWorkspaces = {
   mounted() {
-    const currentUser = JSON.parse(this.el.dataset.currentUser)
-    const teams = JSON.parse(this.el.dataset.teams)
-    const apiToken = this.el.dataset.apiToken
+    const currentUser = readUser(this.el)
+    const teams = readList(this.el, 'teams', 'Team')
+    const apiToken = readToken(this.el, currentUser)
     const csrfToken = this.el.dataset.csrfToken
 
     this.app = mount(WorkspacesApp, {
@@ -32,9 +53,9 @@ export const SvelteWorkspaces = {
 
 export const SvelteTeams = {
   mounted() {
-    const currentUser = JSON.parse(this.el.dataset.currentUser)
-    const teams = JSON.parse(this.el.dataset.teams)
-    const apiToken = this.el.dataset.apiToken
+    const currentUser = readUser(this.el)
+    const teams = readList(this.el, 'teams', 'Team')
+    const apiToken = readToken(this.el, currentUser)
     const csrfToken = this.el.dataset.csrfToken
 
     this.app = mount(TeamsApp, {
@@ -58,10 +79,10 @@ export const SvelteTeams = {
 
 export const SveltePortal = {
   mounted() {
-    const currentUser = JSON.parse(this.el.dataset.currentUser)
-    const teams = JSON.parse(this.el.dataset.teams)
-    const invitations = JSON.parse(this.el.dataset.invitations)
-    const apiToken = this.el.dataset.apiToken
+    const currentUser = readUser(this.el)
+    const teams = readList(this.el, 'teams', 'Team')
+    const invitations = readList(this.el, 'invitations', 'TeamInvitation')
+    const apiToken = readToken(this.el, currentUser)
     const csrfToken = this.el.dataset.csrfToken
 
     this.app = mount(PortalApp, {
@@ -87,9 +108,10 @@ export const SveltePortal = {
 // LiveView hooks for Svelte components
 export const SvelteWorkspaceIndex = {
   mounted() {
-    const workspaces = JSON.parse(this.el.dataset.workspaces || '[]')
-    const teams = JSON.parse(this.el.dataset.teams || '[]')
-    const currentTeam = JSON.parse(this.el.dataset.currentTeam || 'null')
+    const workspaces = readList(this.el, 'workspaces', 'Workspace')
+    const teams = readList(this.el, 'teams', 'Team')
+    const rawTeam = parseJSON(this.el.dataset.currentTeam, null, 'data-current-team')
+    const currentTeam = rawTeam && validate('Team', rawTeam, 'data-current-team')
 
     // Create mock live object for existing components
     const mockLive = {
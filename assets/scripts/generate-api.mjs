@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+// Generates TypeScript types and endpoint functions from the server's OpenAPI spec.
+//
+//   node scripts/generate-api.mjs                 regenerate from the committed snapshot
+//   node scripts/generate-api.mjs --fetch [url]   download the live spec, update the snapshot, regenerate
+//   node scripts/generate-api.mjs --check [url]   report drift between the live spec, the snapshot and the generated code
+//
+// The live spec defaults to $API_SPEC_URL or http://localhost:4000/api/v1/openapi.json;
+// pass a file path instead of a URL to read a saved spec.
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SNAPSHOT = path.join(root, 'svelte/lib/api/generated/openapi.json');
+const OUTPUT = path.join(root, 'svelte/lib/api/generated/index.ts');
+const DEFAULT_SPEC_URL = process.env.API_SPEC_URL || 'http://localhost:4000/api/v1/openapi.json';
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// Key-sorted JSON so snapshots diff cleanly whatever order the server emits
+function canonical(value) {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]));
+  }
+  return value;
+}
+
+function serialize(spec) {
+  return JSON.stringify(canonical(spec), null, 2) + '\n';
+}
+
+async function loadSpec(source) {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source, { headers: { accept: 'application/json' } });
+    if (!response.ok) throw new Error(`GET ${source} failed: ${response.status} ${response.statusText}`);
+    return response.json();
+  }
+  return JSON.parse(fs.readFileSync(path.resolve(source), 'utf8'));
+}
+
+// --- Type emission ---------------------------------------------------------
+
+const pascal = value => value.replace(/(^|[^a-zA-Z0-9])([a-zA-Z0-9])/g, (_, __, c) => c.toUpperCase());
+const refName = ref => ref.split('/').pop();
+const propertyKey = name => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`);
+
+function docComment(text, indent) {
+  if (!text) return '';
+  const lines = String(text).trim().split('\n');
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+function tsType(schema, indent = '') {
+  if (!schema) return 'unknown';
+  let type;
+
+  if (schema.$ref) {
+    type = refName(schema.$ref);
+  } else if (schema.enum) {
+    type = schema.enum.map(value => (typeof value === 'string' ? `'${value}'` : JSON.stringify(value))).join(' | ');
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf || schema.anyOf).map(s => tsType(s, indent)).join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map(s => tsType(s, indent)).join(' & ');
+  } else if (schema.type === 'array') {
+    const item = tsType(schema.items, indent);
+    type = !item.startsWith('{') && /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+  } else if (schema.type === 'object' || schema.properties) {
+    type = objectType(schema, indent);
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'string' || schema.type === 'boolean') {
+    type = schema.type;
+  } else {
+    type = 'unknown';
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectType(schema, indent) {
+  const properties = Object.entries(schema.properties || {});
+  if (properties.length === 0) {
+    const values = schema.additionalProperties && schema.additionalProperties !== true
+      ? tsType(schema.additionalProperties, indent)
+      : 'any';
+    return `Record<string, ${values}>`;
+  }
+
+  const required = new Set(schema.required || []);
+  const inner = indent + '  ';
+  const members = properties.map(([name, property]) =>
+    docComment(property.description, inner) +
+    `${inner}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${tsType(property, inner)};`
+  );
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+function emitSchema(name, schema) {
+  const body = tsType(schema);
+  const doc = docComment(schema.description, '');
+  return body.startsWith('{') && !schema.nullable
+    ? `${doc}export interface ${name} ${body}`
+    : `${doc}export type ${name} = ${body};`;
+}
+
+// --- Operations ------------------------------------------------------------
+
+function collectOperations(spec) {
+  const operations = [];
+  for (const [route, item] of Object.entries(spec.paths || {})) {
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+      const parameters = [...(item.parameters || []), ...(operation.parameters || [])];
+      operations.push({
+        id: operation.operationId || `${method}${pascal(route)}`,
+        method: method.toUpperCase(),
+        route,
+        operation,
+        pathParams: parameters.filter(p => p.in === 'path'),
+        queryParams: parameters.filter(p => p.in === 'query')
+      });
+    }
+  }
+  return operations.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function jsonSchema(content) {
+  if (!content) return undefined;
+  const key = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+  return content[key]?.schema;
+}
+
+function successSchema(operation) {
+  const status = Object.keys(operation.responses || {}).sort().find(code => code.startsWith('2'));
+  return status ? jsonSchema(operation.responses[status].content) : undefined;
+}
+
+function emitOperation(op) {
+  const name = pascal(op.id);
+  const out = [];
+  const params = [...op.pathParams, ...op.queryParams];
+  const body = jsonSchema(op.operation.requestBody?.content);
+  const response = successSchema(op.operation);
+
+  if (params.length > 0) {
+    const members = params.map(p =>
+      docComment(p.description, '  ') +
+      `  ${propertyKey(p.name)}${p.required || p.in === 'path' ? '' : '?'}: ${tsType(p.schema, '  ')};`
+    );
+    out.push(`export interface ${name}Params {\n${members.join('\n')}\n}`);
+  }
+  if (body) out.push(emitSchema(`${name}Body`, body));
+  out.push(response ? emitSchema(`${name}Response`, response) : `export type ${name}Response = void;`);
+
+  const args = ['client: ApiClient'];
+  const call = [];
+  if (params.length > 0) {
+    const optional = params.every(p => !p.required && p.in !== 'path');
+    args.push(`params${optional ? '?' : ''}: ${name}Params`);
+    call.push('params');
+  }
+  if (body) {
+    args.push(`body${op.operation.requestBody.required ? '' : '?'}: ${name}Body`);
+    call.push('body');
+  }
+  args.push('options?: ApiRequestOptions');
+  call.push('options');
+
+  const summary = op.operation.summary ? `${op.operation.summary} (${op.method} ${op.route})` : `${op.method} ${op.route}`;
+  out.push(
+    docComment(summary, '') +
+    `export function ${op.id}(${args.join(', ')}): Promise<${name}Response> {\n` +
+    `  return callOperation<${name}Response>(client, operations.${op.id}, { ${call.join(', ')} });\n` +
+    '}'
+  );
+  return out.join('\n\n');
+}
+
+function generate(spec) {
+  const operations = collectOperations(spec);
+  const schemas = Object.entries(spec.components?.schemas || {}).sort(([a], [b]) => a.localeCompare(b));
+  const list = names => `[${names.map(n => `'${n}'`).join(', ')}]`;
+
+  const descriptors = operations.map(op =>
+    `  ${op.id}: {\n` +
+    `    operationId: '${op.id}',\n` +
+    `    method: '${op.method}',\n` +
+    `    path: '${op.route}',\n` +
+    `    pathParams: ${list(op.pathParams.map(p => p.name))},\n` +
+    `    queryParams: ${list(op.queryParams.map(p => p.name))}\n` +
+    '  }'
+  );
+
+  return [
+    `// Generated by scripts/generate-api.mjs from openapi.json (${[spec.info?.title, spec.info?.version].filter(Boolean).join(' ')}).`,
+    '// Do not edit by hand: run `pnpm api:generate` after updating the snapshot.',
+    "import type { ApiRequestOptions } from '../../../types/api';",
+    "import type { ApiClient } from '../client';",
+    "import { callOperation, type OperationDescriptor } from '../openapi-runtime';",
+    '',
+    '// Schemas',
+    '',
+    schemas.map(([name, schema]) => emitSchema(name, schema)).join('\n\n'),
+    '',
+    '// Operations',
+    '',
+    `export const operations = {\n${descriptors.join(',\n')}\n} satisfies Record<string, OperationDescriptor>;`,
+    '',
+    'export type OperationId = keyof typeof operations;',
+    '',
+    operations.map(emitOperation).join('\n\n'),
+    ''
+  ].join('\n');
+}
+
+// --- Drift check -----------------------------------------------------------
+
+function operationIndex(spec) {
+  return new Map(collectOperations(spec).map(op => [`${op.method} ${op.route}`, op]));
+}
+
+function diffProperties(before, after) {
+  const changes = [];
+  const a = before.properties || {};
+  const b = after.properties || {};
+  for (const name of Object.keys(b)) {
+    if (!(name in a)) changes.push(`+${name}: ${tsType(b[name]).replace(/\s+/g, ' ')}`);
+    else if (tsType(a[name]) !== tsType(b[name])) {
+      changes.push(`~${name}: ${tsType(a[name]).replace(/\s+/g, ' ')} -> ${tsType(b[name]).replace(/\s+/g, ' ')}`);
+    }
+  }
+  for (const name of Object.keys(a)) {
+    if (!(name in b)) changes.push(`-${name}`);
+  }
+  const requiredBefore = JSON.stringify([...(before.required || [])].sort());
+  const requiredAfter = JSON.stringify([...(after.required || [])].sort());
+  if (requiredBefore !== requiredAfter) changes.push(`required: ${requiredBefore} -> ${requiredAfter}`);
+  return changes;
+}
+
+function drift(snapshot, live) {
+  const report = [];
+
+  const before = operationIndex(snapshot);
+  const after = operationIndex(live);
+  for (const [key, op] of after) {
+    if (!before.has(key)) report.push(`+ operation ${key} (${op.id})`);
+    else if (serialize(before.get(key).operation) !== serialize(op.operation) ||
+             serialize(before.get(key).pathParams) !== serialize(op.pathParams)) {
+      report.push(`~ operation ${key} (${op.id})`);
+    }
+  }
+  for (const [key, op] of before) {
+    if (!after.has(key)) report.push(`- operation ${key} (${op.id})`);
+  }
+
+  const schemasBefore = snapshot.components?.schemas || {};
+  const schemasAfter = live.components?.schemas || {};
+  for (const [name, schema] of Object.entries(schemasAfter)) {
+    if (!(name in schemasBefore)) {
+      report.push(`+ schema ${name}`);
+    } else if (serialize(schemasBefore[name]) !== serialize(schema)) {
+      const details = diffProperties(schemasBefore[name], schema);
+      report.push(`~ schema ${name}${details.length ? `\n    ${details.join('\n    ')}` : ''}`);
+    }
+  }
+  for (const name of Object.keys(schemasBefore)) {
+    if (!(name in schemasAfter)) report.push(`- schema ${name}`);
+  }
+
+  return report;
+}
+
+// --- CLI -------------------------------------------------------------------
+
+function writeGenerated(spec) {
+  fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+  fs.writeFileSync(OUTPUT, generate(spec));
+  console.log(`Wrote ${path.relative(root, OUTPUT)}`);
+}
+
+async function main(argv) {
+  const mode = argv.includes('--check') ? 'check' : argv.includes('--fetch') ? 'fetch' : 'generate';
+  const source = argv.find(arg => !arg.startsWith('--')) || DEFAULT_SPEC_URL;
+
+  if (mode === 'fetch') {
+    const live = await loadSpec(source);
+    fs.mkdirSync(path.dirname(SNAPSHOT), { recursive: true });
+    fs.writeFileSync(SNAPSHOT, serialize(live));
+    console.log(`Updated ${path.relative(root, SNAPSHOT)} from ${source}`);
+    writeGenerated(live);
+    return 0;
+  }
+
+  const snapshot = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf8'));
+
+  if (mode === 'generate') {
+    writeGenerated(snapshot);
+    return 0;
+  }
+
+  let failed = false;
+
+  const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf8') : '';
+  if (current !== generate(snapshot)) {
+    console.error(`${path.relative(root, OUTPUT)} is out of date with the snapshot; run \`pnpm api:generate\`.`);
+    failed = true;
+  }
+
+  let live;
+  try {
+    live = await loadSpec(source);
+  } catch (error) {
+    console.error(`Could not load the live spec from ${source}: ${error.message}`);
+    return 1;
+  }
+
+  const report = drift(snapshot, live);
+  if (report.length > 0) {
+    console.error(`API drift between ${path.relative(root, SNAPSHOT)} and ${source}:`);
+    report.forEach(line => console.error(`  ${line}`));
+    console.error('Run `pnpm api:fetch` to update the snapshot and regenerate.');
+    failed = true;
+  } else {
+    console.log('Snapshot matches the live spec.');
+  }
+
+  return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,121 @@
+// ANSI escape codes (SGR colors and styles) to styled text segments for log rendering; every
+// other escape sequence is dropped
+
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// xterm defaults, readable on the dark log background
+const PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff'
+];
+
+const ESCAPE = /\x1b\[([0-9;]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Za-z0-9]|\x1b./g;
+
+function color256(n: number): string | undefined {
+  if (n < 0 || n > 255) return undefined;
+  if (n < 16) return PALETTE[n];
+  if (n >= 232) {
+    const level = 8 + (n - 232) * 10;
+    return `rgb(${level}, ${level}, ${level})`;
+  }
+  const index = n - 16;
+  const channel = (value: number) => (value === 0 ? 0 : 55 + value * 40);
+  return `rgb(${channel(Math.floor(index / 36))}, ${channel(Math.floor(index / 6) % 6)}, ${channel(index % 6)})`;
+}
+
+// Applies one SGR parameter list; returns the new style
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === '' ? [0] : params.split(';').map(Number);
+  const next: AnsiStyle = { ...style };
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) {
+      for (const key of Object.keys(next) as (keyof AnsiStyle)[]) delete next[key];
+    } else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 27) next.inverse = false;
+    else if (code >= 30 && code <= 37) next.fg = PALETTE[code - 30];
+    else if (code >= 90 && code <= 97) next.fg = PALETTE[code - 90 + 8];
+    else if (code >= 40 && code <= 47) next.bg = PALETTE[code - 40];
+    else if (code >= 100 && code <= 107) next.bg = PALETTE[code - 100 + 8];
+    else if (code === 39) delete next.fg;
+    else if (code === 49) delete next.bg;
+    else if (code === 38 || code === 48) {
+      // 38;5;n (256 colors) or 38;2;r;g;b (true color)
+      const key = code === 38 ? 'fg' : 'bg';
+      if (codes[i + 1] === 5) {
+        next[key] = color256(codes[i + 2]);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        next[key] = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${codes[i + 4] ?? 0})`;
+        i += 4;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Split a line into styled segments. `initial` carries styles over from the previous line,
+ * the style in effect at the end is returned as `style`.
+ */
+export function parseAnsi(line: string, initial: AnsiStyle = {}): { segments: AnsiSegment[]; style: AnsiStyle } {
+  const segments: AnsiSegment[] = [];
+  let style = initial;
+  let last = 0;
+
+  const push = (text: string) => {
+    if (text) segments.push({ text, style });
+  };
+
+  for (const match of line.matchAll(ESCAPE)) {
+    push(line.slice(last, match.index));
+    last = match.index! + match[0].length;
+    if (match[2] === 'm') style = applySgr(style, match[1]);
+  }
+  push(line.slice(last));
+  return { segments, style };
+}
+
+/**
+ * Remove every escape sequence, for search and export
+ */
+export function stripAnsi(line: string): string {
+  return line.replace(ESCAPE, '');
+}
+
+export function ansiCss(style: AnsiStyle): string {
+  let fg = style.fg;
+  let bg = style.bg;
+  // Swap against the log viewer's default colors
+  if (style.inverse) [fg, bg] = [bg ?? '#111827', fg ?? '#e5e5e5'];
+
+  const rules: string[] = [];
+  if (fg) rules.push(`color: ${fg}`);
+  if (bg) rules.push(`background-color: ${bg}`);
+  if (style.bold) rules.push('font-weight: 600');
+  if (style.dim) rules.push('opacity: 0.7');
+  if (style.italic) rules.push('font-style: italic');
+  if (style.underline) rules.push('text-decoration: underline');
+  return rules.join('; ');
+}
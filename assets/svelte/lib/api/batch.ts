@@ -0,0 +1,153 @@
+// Coalesces API operations queued in the same tick into one BatchRequest
+import {
+  ApiRequestError,
+  type BatchOperation,
+  type BatchRequest,
+  type BatchResponse,
+  type HttpMethod
+} from '../../types/api';
+import { createApiError } from './errors';
+import type { ApiClient, ApiResponse } from './client';
+
+export interface BatchExecutorOptions {
+  // Server route accepting a BatchRequest
+  endpoint?: string;
+  // Operations per batch call; larger queues are split
+  maxBatchSize?: number;
+  // Parallel requests when falling back to one request per operation
+  concurrency?: number;
+}
+
+export type BatchOperationInput = Omit<BatchOperation, 'id'>;
+
+interface PendingOperation {
+  operation: BatchOperation;
+  resolve: (response: ApiResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+// Statuses meaning the server has no batch route
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+let nextOperationId = 0;
+
+export class BatchExecutor {
+  private queue: PendingOperation[] = [];
+  private flushScheduled = false;
+  private batchSupported: boolean | undefined;
+  private endpoint: string;
+  private maxBatchSize: number;
+  private concurrency: number;
+
+  constructor(private client: ApiClient, options: BatchExecutorOptions = {}) {
+    this.endpoint = options.endpoint ?? '/batch';
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.concurrency = options.concurrency ?? 4;
+  }
+
+  /**
+   * Queue an operation; it is sent with everything else queued in the same tick
+   */
+  enqueue<T = any>(operation: BatchOperationInput): Promise<ApiResponse<T>> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        operation: { ...operation, id: `op-${++nextOperationId}` },
+        resolve,
+        reject
+      });
+
+      if (!this.flushScheduled) {
+        this.flushScheduled = true;
+        queueMicrotask(() => this.flush());
+      }
+    });
+  }
+
+  /**
+   * Queue several operations and wait for all of them, successful or not
+   */
+  all<T = any>(operations: BatchOperationInput[]): Promise<PromiseSettledResult<ApiResponse<T>>[]> {
+    return Promise.allSettled(operations.map(operation => this.enqueue<T>(operation)));
+  }
+
+  private async flush() {
+    this.flushScheduled = false;
+    const pending = this.queue;
+    this.queue = [];
+
+    for (let i = 0; i < pending.length; i += this.maxBatchSize) {
+      const chunk = pending.slice(i, i + this.maxBatchSize);
+      if (chunk.length === 1 || this.batchSupported === false) {
+        await this.runIndividually(chunk);
+      } else {
+        await this.runBatch(chunk);
+      }
+    }
+  }
+
+  private async runBatch(chunk: PendingOperation[]) {
+    const request: BatchRequest = { operations: chunk.map(p => p.operation) };
+
+    let response: ApiResponse<BatchResponse>;
+    try {
+      // A server without the batch route is detected here, not reported
+      response = await this.client.post<BatchResponse>(this.endpoint, request, {
+        expectedStatuses: UNSUPPORTED_STATUSES
+      });
+    } catch (error) {
+      if (error instanceof ApiRequestError && UNSUPPORTED_STATUSES.includes(error.status)) {
+        this.batchSupported = false;
+        await this.runIndividually(chunk);
+      } else {
+        chunk.forEach(p => p.reject(error));
+      }
+      return;
+    }
+
+    this.batchSupported = true;
+    const results = new Map((response.data?.results ?? []).map(result => [result.id, result]));
+
+    for (const { operation, resolve, reject } of chunk) {
+      const result = results.get(operation.id);
+      if (!result) {
+        reject(new ApiRequestError(`No result for batched ${operation.method} ${operation.endpoint}`, 0));
+      } else if (result.status >= 400 || result.error) {
+        reject(createApiError(result.status, '', { error: result.error }));
+      } else {
+        resolve({ data: result.data, status: result.status, statusText: '' });
+      }
+    }
+  }
+
+  // Fallback: one request per operation with bounded parallelism
+  private async runIndividually(chunk: PendingOperation[]) {
+    let index = 0;
+    const worker = async () => {
+      while (index < chunk.length) {
+        const { operation, resolve, reject } = chunk[index++];
+        try {
+          resolve(await this.send(operation.method, operation.endpoint, operation.data));
+        } catch (error) {
+          reject(error);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, chunk.length) }, worker));
+  }
+
+  private send(method: HttpMethod, endpoint: string, data?: any): Promise<ApiResponse> {
+    switch (method) {
+      case 'GET':
+        return this.client.get(endpoint);
+      case 'POST':
+        return this.client.post(endpoint, data);
+      case 'PUT':
+        return this.client.put(endpoint, data);
+      case 'PATCH':
+        return this.client.patch(endpoint, data);
+      case 'DELETE':
+        return this.client.delete(endpoint);
+    }
+  }
+}
@@ -0,0 +1,374 @@
+// Phoenix Channels over one shared socket: reference-counted joins, rejoin with backoff,
+// typed events and Svelte store adapters per topic
+import { Socket, Presence, type Channel } from 'phoenix';
+import { readable, writable, type Readable, type Writable } from 'svelte/store';
+import { session } from './session';
+
+export type ChannelStatus = 'joining' | 'joined' | 'errored' | 'closed' | 'failed';
+
+export interface ChannelState {
+  status: ChannelStatus;
+  // Join error reason from the server, e.g. 'unauthorized'
+  error?: string;
+  // Failed join attempts since the last successful one
+  attempts: number;
+}
+
+// `idle` when nothing needs the socket, `closed` when it dropped and is retrying
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'closed';
+
+// Incoming events keyed by name (an interface of event -> payload); `ChannelMessage` turns
+// the map into a discriminated union
+export type EventMap = object;
+
+export type ChannelMessage<E extends EventMap> = {
+  [K in keyof E & string]: { event: K; payload: E[K] };
+}[keyof E & string];
+
+// Outgoing events: what the client sends and what the server replies with
+export type PushMap<P = any> = { [K in keyof P]: { payload: object; reply: unknown } };
+
+type AnyPushes = Record<string, { payload: object; reply: unknown }>;
+
+export interface PresenceEntry<M = Record<string, unknown>> {
+  key: string;
+  metas: (M & { phx_ref: string })[];
+}
+
+export interface ChannelClientOptions {
+  endpoint?: string;
+  // Connect params; defaults to the session token
+  params?: () => Record<string, unknown>;
+  joinTimeoutMs?: number;
+  pushTimeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Join errors that will not succeed on retry; the topic is marked failed instead of rejoined
+  fatalReasons?: (reason: string) => boolean;
+}
+
+export class ChannelError extends Error {
+  constructor(message: string, public topic: string, public reason?: string) {
+    super(message);
+    this.name = 'ChannelError';
+  }
+}
+
+interface TopicEntry {
+  channel: Channel;
+  refs: number;
+  state: Writable<ChannelState>;
+  listeners: Set<(message: { event: string; payload: any }) => void>;
+}
+
+function defaultFatal(reason: string): boolean {
+  return reason === 'unauthorized' || reason === 'invalid_topic' || reason.endsWith('_not_found');
+}
+
+/**
+ * Exponential backoff with equal jitter, shared by socket reconnects and channel rejoins
+ */
+export function backoff(tries: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, tries - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export class ChannelClient {
+  private socket: Socket | null = null;
+  private topics = new Map<string, TopicEntry>();
+  private options: Required<ChannelClientOptions>;
+  private connectionStore = writable<ConnectionState>('idle');
+  private token: string | null = null;
+  // Set while we close the socket on purpose, so the close is not reported as a drop
+  private closing = false;
+
+  readonly connection: Readable<ConnectionState> = { subscribe: this.connectionStore.subscribe };
+
+  constructor(options: ChannelClientOptions = {}) {
+    this.options = {
+      endpoint: '/socket',
+      params: () => ({ token: session.getToken() }),
+      joinTimeoutMs: 10_000,
+      pushTimeoutMs: 10_000,
+      baseDelayMs: 500,
+      maxDelayMs: 30_000,
+      fatalReasons: defaultFatal,
+      ...options
+    };
+  }
+
+  /**
+   * Open the socket; joins do this on demand
+   */
+  connect() {
+    if (!this.socket) {
+      const { endpoint, params, baseDelayMs, maxDelayMs } = this.options;
+      this.socket = new Socket(endpoint, {
+        params,
+        reconnectAfterMs: (tries: number) => backoff(tries, baseDelayMs, maxDelayMs),
+        rejoinAfterMs: (tries: number) => backoff(tries, baseDelayMs, maxDelayMs)
+      });
+      this.socket.onOpen(() => this.connectionStore.set('open'));
+      this.socket.onClose(() => this.connectionStore.set(this.closing ? 'idle' : 'closed'));
+      this.socket.onError(() => this.connectionStore.set(this.closing ? 'idle' : 'closed'));
+    }
+    this.closing = false;
+    if (!this.socket.isConnected()) {
+      this.connectionStore.set('connecting');
+      this.socket.connect();
+    }
+  }
+
+  /**
+   * Close the socket; joined topics error out and rejoin on the next connect
+   */
+  disconnect() {
+    this.closing = true;
+    this.socket?.disconnect();
+    this.connectionStore.set('idle');
+  }
+
+  /**
+   * Reconnect with fresh params, e.g. after the session token changed
+   */
+  reconnect() {
+    if (!this.socket) return;
+    this.closing = true;
+    this.socket.disconnect(() => this.connect());
+  }
+
+  /**
+   * Retry right away instead of waiting out the backoff, e.g. when the tab becomes visible again
+   */
+  retryNow() {
+    if (this.topics.size === 0 || this.socket?.isConnected()) return;
+    this.socket ? this.reconnect() : this.connect();
+  }
+
+  /**
+   * Join `topic`, or share the existing join; every handle must be left once
+   */
+  join<E extends EventMap, P extends PushMap<P> = AnyPushes>(topic: string, params: object = {}): ChannelHandle<E, P> {
+    let entry = this.topics.get(topic);
+    if (!entry) {
+      entry = this.open(topic, params);
+      this.topics.set(topic, entry);
+    }
+    entry.refs++;
+    return new ChannelHandle<E, P>(this, topic, entry);
+  }
+
+  /** @internal */
+  release(topic: string, entry: TopicEntry) {
+    if (this.topics.get(topic) !== entry || --entry.refs > 0) return;
+
+    this.topics.delete(topic);
+    entry.channel.leave();
+    entry.state.set({ status: 'closed', attempts: 0 });
+    if (this.topics.size === 0) this.disconnect();
+  }
+
+  /** @internal */
+  get pushTimeoutMs() {
+    return this.options.pushTimeoutMs;
+  }
+
+  /**
+   * Follow the session: drop the socket on logout, reconnect when the token changes
+   */
+  bindSession() {
+    return session.subscribe(state => {
+      const previous = this.token;
+      this.token = state.token;
+      if (previous === state.token || !this.socket) return;
+
+      if (!state.token) {
+        this.disconnect();
+      } else if (this.topics.size > 0) {
+        previous ? this.reconnect() : this.connect();
+      }
+    });
+  }
+
+  private open(topic: string, params: object): TopicEntry {
+    this.connect();
+
+    const channel = this.socket!.channel(topic, params);
+    const state = writable<ChannelState>({ status: 'joining', attempts: 0 });
+    const entry: TopicEntry = { channel, refs: 0, state, listeners: new Set() };
+
+    // Every incoming event passes through onMessage; fan it out to the handles
+    const onMessage = channel.onMessage.bind(channel);
+    channel.onMessage = (event: string, payload: any, ref: any) => {
+      if (!event.startsWith('phx_')) {
+        entry.listeners.forEach(listener => listener({ event, payload }));
+      }
+      return onMessage(event, payload, ref);
+    };
+
+    channel.onError(() => state.update(s => (s.status === 'failed' ? s : { ...s, status: 'errored' })));
+    channel.onClose(() => state.update(s => (s.status === 'failed' ? s : { ...s, status: 'closed' })));
+
+    channel.join(this.options.joinTimeoutMs)
+      .receive('ok', () => state.set({ status: 'joined', attempts: 0 }))
+      .receive('error', (response?: { reason?: string }) => {
+        const reason = response?.reason ?? 'join_failed';
+        if (this.options.fatalReasons(reason)) {
+          // Stop Phoenix from rejoining a topic that will keep refusing us
+          channel.leave();
+          state.update(s => ({ status: 'failed', error: reason, attempts: s.attempts + 1 }));
+        } else {
+          state.update(s => ({ status: 'errored', error: reason, attempts: s.attempts + 1 }));
+        }
+      })
+      .receive('timeout', () => state.update(s => ({ status: 'errored', error: 'timeout', attempts: s.attempts + 1 })));
+
+    return entry;
+  }
+}
+
+/**
+ * One reference to a joined topic; typed by the topic's incoming and outgoing events
+ */
+export class ChannelHandle<E extends EventMap, P extends PushMap<P> = AnyPushes> {
+  private released = false;
+  private unsubscribers = new Set<() => void>();
+
+  readonly state: Readable<ChannelState>;
+
+  constructor(private client: ChannelClient, readonly topic: string, private entry: TopicEntry) {
+    this.state = { subscribe: entry.state.subscribe };
+  }
+
+  /**
+   * Listen to one event; returns an unsubscribe function
+   */
+  on<K extends keyof E & string>(event: K, callback: (payload: E[K]) => void): () => void {
+    return this.onMessage(message => {
+      if (message.event === event) callback(message.payload as E[K]);
+    });
+  }
+
+  /**
+   * Listen to every event as a discriminated union
+   */
+  onMessage(callback: (message: ChannelMessage<E>) => void): () => void {
+    const listener = callback as (message: { event: string; payload: any }) => void;
+    this.entry.listeners.add(listener);
+    const off = () => {
+      this.entry.listeners.delete(listener);
+      this.unsubscribers.delete(off);
+    };
+    this.unsubscribers.add(off);
+    return off;
+  }
+
+  /**
+   * Push an event and wait for the server's reply
+   */
+  push<K extends keyof P & string>(event: K, payload: P[K]['payload'], timeoutMs = this.client.pushTimeoutMs): Promise<P[K]['reply']> {
+    return new Promise((resolve, reject) => {
+      this.entry.channel.push(event, payload, timeoutMs)
+        .receive('ok', (reply: P[K]['reply']) => resolve(reply))
+        .receive('error', (reply?: { reason?: string }) => reject(new ChannelError(`${event} failed: ${reply?.reason ?? 'error'}`, this.topic, reply?.reason)))
+        .receive('timeout', () => reject(new ChannelError(`${event} timed out`, this.topic, 'timeout')));
+    });
+  }
+
+  /**
+   * Push an event the server does not reply to (cursor moves and the like)
+   */
+  send<K extends keyof P & string>(event: K, payload: P[K]['payload']) {
+    this.entry.channel.push(event, payload);
+  }
+
+  /**
+   * Drop this reference and its listeners; the topic is left when the last reference goes
+   */
+  leave() {
+    if (this.released) return;
+    this.released = true;
+    this.unsubscribers.forEach(off => off());
+    this.client.release(this.topic, this.entry);
+  }
+}
+
+export const channels = new ChannelClient();
+
+if (typeof window !== 'undefined') {
+  channels.bindSession();
+}
+
+/**
+ * Fold a topic's events into a store; the topic is joined while the store has subscribers
+ */
+export function channelStore<E extends EventMap, T>(
+  topic: string,
+  reducer: (value: T, message: ChannelMessage<E>) => T,
+  initial: T,
+  client: ChannelClient = channels
+): Readable<T> {
+  return readable(initial, set => {
+    let value = initial;
+    const handle = client.join<E>(topic);
+    handle.onMessage(message => {
+      value = reducer(value, message);
+      set(value);
+    });
+    return () => handle.leave();
+  });
+}
+
+/**
+ * Latest payload of one event on a topic
+ */
+export function eventStore<E extends EventMap, K extends keyof E & string>(
+  topic: string,
+  event: K,
+  client: ChannelClient = channels
+): Readable<E[K] | undefined> {
+  return channelStore<E, E[K] | undefined>(
+    topic,
+    (value, message) => (message.event === event ? (message.payload as E[K]) : value),
+    undefined,
+    client
+  );
+}
+
+/**
+ * Join state of a topic while subscribed
+ */
+export function channelState(topic: string, client: ChannelClient = channels): Readable<ChannelState> {
+  return readable<ChannelState>({ status: 'joining', attempts: 0 }, set => {
+    const handle = client.join(topic);
+    const unsubscribe = handle.state.subscribe(set);
+    return () => {
+      unsubscribe();
+      handle.leave();
+    };
+  });
+}
+
+/**
+ * Who is on a topic, synced from `presence_state` and `presence_diff`
+ */
+export function presenceStore<M = Record<string, unknown>>(
+  topic: string,
+  client: ChannelClient = channels
+): Readable<PresenceEntry<M>[]> {
+  return readable<PresenceEntry<M>[]>([], set => {
+    let presences: object = {};
+    const handle = client.join<{ presence_state: object; presence_diff: { joins: object; leaves: object } }>(topic);
+    const publish = () => set(Presence.list(presences, (key: string, presence: { metas: PresenceEntry<M>['metas'] }) => ({ key, metas: presence.metas })));
+
+    handle.on('presence_state', state => {
+      presences = Presence.syncState(presences, state);
+      publish();
+    });
+    handle.on('presence_diff', diff => {
+      presences = Presence.syncDiff(presences, diff);
+      publish();
+    });
+    return () => handle.leave();
+  });
+}
@@ -1,4 +1,19 @@
 // HTTP client for API requests
+import {
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  ApiRequestError,
+  AuthenticationError,
+  type ApiRequestOptions,
+  type RetryPolicy
+} from '../../types/api';
+import { createApiError, type ApiClientError } from './errors';
+import { appendParams, serializeQuery } from './query';
+import { session } from './session';
+
+export type { ApiClientError } from './errors';
+
 export interface ApiResponse<T = any> {
   data: T;
   status: number;
@@ -6,102 +21,351 @@ export interface ApiResponse<T = any> {
 }
 
 export interface ApiClient {
-  get<T = any>(url: string, config?: { params?: Record<string, any> }): Promise<ApiResponse<T>>;
-  post<T = any>(url: string, data?: any, config?: any): Promise<ApiResponse<T>>;
-  put<T = any>(url: string, data?: any, config?: any): Promise<ApiResponse<T>>;
-  delete<T = any>(url: string, config?: any): Promise<ApiResponse<T>>;
+  get<T = any>(url: string, config?: ApiRequestOptions): Promise<ApiResponse<T>>;
+  post<T = any>(url: string, data?: any, config?: ApiRequestOptions): Promise<ApiResponse<T>>;
+  put<T = any>(url: string, data?: any, config?: ApiRequestOptions): Promise<ApiResponse<T>>;
+  patch<T = any>(url: string, data?: any, config?: ApiRequestOptions): Promise<ApiResponse<T>>;
+  delete<T = any>(url: string, config?: ApiRequestOptions): Promise<ApiResponse<T>>;
+}
+
+export interface HttpClientOptions {
+  // Explicit credentials; the API token wins over the session's, CSRF falls back to the meta tag
+  apiToken?: string;
+  csrfToken?: string;
+  // Default per-request timeout in milliseconds (0 disables it)
+  timeout?: number;
+  // Default retry policy; `false` disables retries for every request
+  retry?: Partial<RetryPolicy> | false;
+  // Replaces `fetch` for this client, e.g. an in-memory backend in development and tests
+  transport?: Transport;
+}
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+let defaultTransport: Transport | null = null;
+
+/**
+ * Route every client without its own transport through `transport` (null restores `fetch`)
+ */
+export function setTransport(transport: Transport | null) {
+  defaultTransport = transport;
+}
+
+export function getTransport(): Transport {
+  return defaultTransport ?? ((url, init) => fetch(url, init));
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+  retryOnStatus: [408, 429, 502, 503, 504]
+};
+
+function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Milliseconds to wait before the next attempt, or undefined when the error is final
+ */
+function retryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | undefined {
+  if (attempt >= policy.retries) return undefined;
+
+  const retryable = error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    (error instanceof ApiRequestError && policy.retryOnStatus.includes(error.status));
+  if (!retryable) return undefined;
+
+  // Honor the server's Retry-After, but give up rather than retry sooner than asked
+  if (error instanceof ApiRequestError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : undefined;
+  }
+
+  // Exponential backoff with equal jitter
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
-class HttpClient implements ApiClient {
+type ApiErrorListener = (error: ApiClientError) => void;
+
+const errorListeners = new Set<ApiErrorListener>();
+
+/**
+ * Subscribe to every failed API request, e.g. to handle 401/403 globally
+ */
+export function onApiError(listener: ApiErrorListener): () => void {
+  errorListeners.add(listener);
+  return () => errorListeners.delete(listener);
+}
+
+function notifyApiError(error: ApiClientError) {
+  errorListeners.forEach(listener => {
+    try {
+      listener(error);
+    } catch (e) {
+      console.error('API error listener failed:', e);
+    }
+  });
+}
+
+export class HttpClient implements ApiClient {
   private baseURL: string;
+  private options: HttpClientOptions;
+  private scopes = new Map<string, AbortController>();
 
-  constructor(baseURL: string = '/api/v1') {
-    this.baseURL = baseURL;
+  constructor(baseURL: string = '/api/v1', options: HttpClientOptions = {}) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+    this.options = options;
   }
 
   private async request<T>(
     method: string,
     url: string,
     data?: any,
-    config?: { params?: Record<string, any> }
+    config: ApiRequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    const fullUrl = new URL(url, window.location.origin + this.baseURL);
+    const fullUrl = new URL(this.baseURL + url, window.location.origin);
     
-    // Add query parameters if provided
-    if (config?.params) {
-      Object.entries(config.params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          fullUrl.searchParams.append(key, String(value));
-        }
-      });
+    // Add query parameters if provided; arrays and nested objects use bracket notation
+    if (config.params) {
+      appendParams(fullUrl.searchParams, config.params);
+    }
+    if (config.query) {
+      appendParams(fullUrl.searchParams, serializeQuery(config.query));
     }
 
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
+    const isFormData = typeof FormData !== 'undefined' && data instanceof FormData;
+    const headers: Record<string, string> = {};
+
+    // Let the browser set the multipart boundary for uploads
+    if (!isFormData) {
+      headers['Content-Type'] = 'application/json';
+    }
 
     // Get CSRF token from meta tag (Phoenix convention)
-    const csrfToken = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content');
+    const csrfToken = this.options.csrfToken ||
+      document.querySelector('meta[name="csrf-token"]')?.getAttribute('content');
     if (csrfToken) {
       headers['X-CSRF-Token'] = csrfToken;
     }
 
-    // Get authentication token if available
-    const authToken = localStorage.getItem('auth_token') || sessionStorage.getItem('auth_token');
+    // A token passed to this client wins; otherwise the session's, so a refresh in any tab applies
+    const authToken = this.options.apiToken || session.getToken();
     if (authToken) {
       headers['Authorization'] = `Bearer ${authToken}`;
     }
 
+    // One key per logical request, reused across retries so the server can deduplicate
+    if (config.idempotencyKey) {
+      headers['Idempotency-Key'] = config.idempotencyKey === true
+        ? generateIdempotencyKey()
+        : config.idempotencyKey;
+    }
+
+    const {
+      params: _params,
+      query: _query,
+      timeout: _timeout,
+      scope: _scope,
+      signal: _signal,
+      retry: _retry,
+      idempotencyKey: _idempotencyKey,
+      expectedStatuses: _expectedStatuses,
+      ...init
+    } = config;
+    const mergedHeaders = { ...headers, ...(init.headers as Record<string, string> | undefined) };
+
     const requestConfig: RequestInit = {
+      ...init,
       method,
-      headers,
+      headers: mergedHeaders,
       credentials: 'same-origin', // Include cookies
     };
 
     if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
-      requestConfig.body = JSON.stringify(data);
+      requestConfig.body = isFormData ? data : JSON.stringify(data);
     }
 
+    const policy = this.retryPolicy(method, mergedHeaders, config);
+    const timeout = config.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT_MS;
+    const cancellation = new AbortController();
+    const release = this.track(cancellation, config);
+    let reauthenticated = false;
+
     try {
-      const response = await fetch(fullUrl.toString(), requestConfig);
-      
-      let responseData: any;
-      const contentType = response.headers.get('content-type');
-      
-      if (contentType && contentType.includes('application/json')) {
-        responseData = await response.json();
-      } else {
-        responseData = await response.text();
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.send<T>(fullUrl, requestConfig, cancellation.signal, timeout);
+        } catch (error) {
+          // One retry with a renewed token before the 401 is reported
+          if (error instanceof AuthenticationError && !reauthenticated && await session.refresh()) {
+            reauthenticated = true;
+            const renewed = session.getToken();
+            // The passed token was rejected; use the renewed one from now on
+            if (this.options.apiToken && renewed) this.options = { ...this.options, apiToken: renewed };
+            mergedHeaders['Authorization'] = `Bearer ${renewed}`;
+            continue;
+          }
+          const delay = policy ? retryDelay(error, attempt, policy) : undefined;
+          if (delay === undefined) {
+            const expected = error instanceof ApiRequestError && config.expectedStatuses?.includes(error.status);
+            if (!(error instanceof RequestCancelledError) && !expected) {
+              console.error('API request failed:', error);
+              notifyApiError(error as ApiClientError);
+            }
+            throw error;
+          }
+          await sleep(delay, cancellation.signal);
+        }
       }
+    } finally {
+      release();
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+  // A single attempt; the timeout applies per attempt so a retry gets a fresh budget
+  private async send<T>(
+    url: URL,
+    requestConfig: RequestInit,
+    cancellation: AbortSignal,
+    timeout: number
+  ): Promise<ApiResponse<T>> {
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(cancellation.reason);
+    cancellation.addEventListener('abort', onCancel, { once: true });
+    const timer = timeout > 0
+      ? setTimeout(() => controller.abort(new TimeoutError(`Request timed out after ${timeout}ms`, timeout)), timeout)
+      : undefined;
 
-      return {
-        data: responseData,
-        status: response.status,
-        statusText: response.statusText,
-      };
+    let response: Response;
+    let responseData: any;
+    try {
+      const transport = this.options.transport ?? getTransport();
+      response = await transport(url.toString(), { ...requestConfig, signal: controller.signal });
+
+      const contentType = response.headers.get('content-type');
+      try {
+        if (contentType && contentType.includes('json')) {
+          responseData = await response.json();
+        } else {
+          responseData = await response.text();
+        }
+      } catch (error) {
+        if (controller.signal.aborted) throw error;
+        responseData = undefined;
+      }
     } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
+      // Aborts carry their cause as the reason; anything else means the request never completed
+      throw controller.signal.aborted
+        ? controller.signal.reason
+        : new NetworkError(error instanceof Error ? error.message : undefined);
+    } finally {
+      clearTimeout(timer);
+      cancellation.removeEventListener('abort', onCancel);
     }
+
+    if (!response.ok) {
+      throw createApiError(response.status, response.statusText, responseData, response.headers);
+    }
+
+    return {
+      data: responseData,
+      status: response.status,
+      statusText: response.statusText,
+    };
   }
 
-  async get<T = any>(url: string, config?: { params?: Record<string, any> }): Promise<ApiResponse<T>> {
+  // GET is retried by default; writes only when they carry an idempotency key
+  private retryPolicy(
+    method: string,
+    headers: Record<string, string>,
+    config: ApiRequestOptions
+  ): RetryPolicy | null {
+    if (config.retry === false || this.options.retry === false) return null;
+
+    const hasIdempotencyKey = Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+    if (method !== 'GET' && !hasIdempotencyKey) return null;
+
+    return { ...DEFAULT_RETRY_POLICY, ...this.options.retry, ...config.retry };
+  }
+
+  // Links the caller's signal and the request scope to the cancellation controller
+  private track(controller: AbortController, config: ApiRequestOptions): () => void {
+    const signal = config.signal;
+    const onCallerAbort = () => controller.abort(new RequestCancelledError());
+    if (signal?.aborted) {
+      onCallerAbort();
+    } else {
+      signal?.addEventListener('abort', onCallerAbort, { once: true });
+    }
+
+    if (config.scope) {
+      this.scopes.get(config.scope)?.abort(new RequestCancelledError('Superseded by a newer request'));
+      this.scopes.set(config.scope, controller);
+    }
+
+    return () => {
+      signal?.removeEventListener('abort', onCallerAbort);
+      if (config.scope && this.scopes.get(config.scope) === controller) {
+        this.scopes.delete(config.scope);
+      }
+    };
+  }
+
+  /**
+   * Cancel the in-flight request for a scope, if any
+   */
+  cancel(scope: string) {
+    this.scopes.get(scope)?.abort(new RequestCancelledError());
+    this.scopes.delete(scope);
+  }
+
+  /**
+   * Cancel every scoped request still in flight
+   */
+  cancelAll() {
+    this.scopes.forEach(controller => controller.abort(new RequestCancelledError()));
+    this.scopes.clear();
+  }
+
+  async get<T = any>(url: string, config?: ApiRequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>('GET', url, undefined, config);
   }
 
-  async post<T = any>(url: string, data?: any, config?: any): Promise<ApiResponse<T>> {
+  async post<T = any>(url: string, data?: any, config?: ApiRequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>('POST', url, data, config);
   }
 
-  async put<T = any>(url: string, data?: any, config?: any): Promise<ApiResponse<T>> {
+  async put<T = any>(url: string, data?: any, config?: ApiRequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>('PUT', url, data, config);
   }
 
-  async delete<T = any>(url: string, config?: any): Promise<ApiResponse<T>> {
+  async patch<T = any>(url: string, data?: any, config?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('PATCH', url, data, config);
+  }
+
+  async delete<T = any>(url: string, config?: ApiRequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>('DELETE', url, undefined, config);
   }
 }
@@ -0,0 +1,217 @@
+// Keeps the LiveView socket and the channel socket connected without reloading the page: retries
+// with backoff (now, when the tab comes back or the network returns), reports a single status for
+// the reconnecting banner and, once everything is back, refetches only what went stale meanwhile
+import { derived, writable, type Readable, type Writable } from 'svelte/store';
+import type { Socket } from 'phoenix';
+import { channels, type ChannelClient } from './channels';
+import { queryCache } from './query-cache';
+
+export type ConnectionStatus = 'online' | 'reconnecting' | 'offline';
+
+export interface ConnectionManagerState {
+  status: ConnectionStatus;
+  // When the first source dropped; null while online
+  downSince: number | null;
+  // Sources currently down, e.g. ['liveview']
+  down: string[];
+}
+
+// up: connected; down: dropped and retrying; idle: not in use, which is not an outage
+export type SourceState = 'up' | 'down' | 'idle';
+
+export interface ConnectionSource {
+  state: Readable<SourceState>;
+  retry(): void;
+}
+
+export interface ConnectionManagerOptions {
+  // Short blips do not flash the banner
+  graceMs?: number;
+}
+
+// The parts of LiveSocket used here
+interface LiveSocketLike {
+  getSocket(): Socket;
+  isConnected(): boolean;
+}
+
+export class ConnectionManager implements Readable<ConnectionManagerState> {
+  private sources = new Map<string, { source: ConnectionSource; state: SourceState }>();
+  private online = writable(typeof navigator === 'undefined' ? true : navigator.onLine);
+  private downAt: number | null = null;
+  private downSince = writable<number | null>(null);
+  private downNames = writable<string[]>([]);
+  private visible: Writable<boolean> = writable(true);
+  private resyncListeners = new Set<(downSince: number) => void>();
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private detach: (() => void) | null = null;
+  private graceMs: number;
+
+  subscribe: Readable<ConnectionManagerState>['subscribe'];
+
+  constructor(options: ConnectionManagerOptions = {}) {
+    this.graceMs = options.graceMs ?? 1_500;
+    this.subscribe = derived([this.online, this.downSince, this.downNames, this.visible], ([$online, $since, $down, $visible]) => ({
+      status: !$online ? 'offline' : $down.length > 0 && $visible ? 'reconnecting' : 'online',
+      downSince: $since,
+      down: $down
+    }) satisfies ConnectionManagerState).subscribe;
+  }
+
+  /**
+   * Track a connection; returns a function that stops tracking it
+   */
+  watch(name: string, source: ConnectionSource): () => void {
+    const entry = { source, state: 'idle' as SourceState };
+    this.sources.set(name, entry);
+    const unsubscribe = source.state.subscribe(state => {
+      entry.state = state;
+      this.update();
+    });
+    return () => {
+      unsubscribe();
+      this.sources.delete(name);
+      this.update();
+    };
+  }
+
+  /**
+   * Track the LiveView socket. It only counts as down after it has been up once, since pages
+   * without LiveViews never open it.
+   */
+  watchLiveSocket(liveSocket: LiveSocketLike): () => void {
+    const socket = liveSocket.getSocket();
+    const state = writable<SourceState>(liveSocket.isConnected() ? 'up' : 'idle');
+    let opened = liveSocket.isConnected();
+
+    const refs = [
+      socket.onOpen(() => {
+        opened = true;
+        state.set('up');
+      }),
+      socket.onClose(() => {
+        if (opened) state.set('down');
+      }),
+      socket.onError(() => {
+        if (opened) state.set('down');
+      })
+    ];
+    const stop = this.watch('liveview', {
+      state,
+      // LiveView channels rejoin by themselves once the socket is back
+      retry: () => socket.disconnect(() => socket.connect())
+    });
+    return () => {
+      socket.off(refs);
+      stop();
+    };
+  }
+
+  /**
+   * Track the shared channel socket
+   */
+  watchChannels(client: ChannelClient = channels): () => void {
+    return this.watch('channels', {
+      state: derived(client.connection, connection =>
+        connection === 'open' ? 'up' : connection === 'closed' ? 'down' : 'idle'
+      ),
+      retry: () => client.retryNow()
+    });
+  }
+
+  /**
+   * Called once everything is connected again, with the time the outage started
+   */
+  onResync(listener: (downSince: number) => void): () => void {
+    this.resyncListeners.add(listener);
+    return () => this.resyncListeners.delete(listener);
+  }
+
+  /**
+   * Retry every dropped connection now instead of waiting out its backoff
+   */
+  retryNow() {
+    this.sources.forEach(({ source, state }) => {
+      if (state === 'down') source.retry();
+    });
+  }
+
+  /**
+   * Retry on focus and when the network returns
+   */
+  start(target: Window = window) {
+    if (this.detach) return;
+
+    const onOnline = () => {
+      this.online.set(true);
+      this.retryNow();
+    };
+    const onOffline = () => this.online.set(false);
+    const onVisibility = () => {
+      const visible = target.document.visibilityState === 'visible';
+      this.visible.set(visible);
+      // Timers are throttled in background tabs; the backoff may be far behind
+      if (visible) this.retryNow();
+    };
+
+    target.addEventListener('online', onOnline);
+    target.addEventListener('offline', onOffline);
+    target.document.addEventListener('visibilitychange', onVisibility);
+
+    this.detach = () => {
+      target.removeEventListener('online', onOnline);
+      target.removeEventListener('offline', onOffline);
+      target.document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }
+
+  stop() {
+    this.detach?.();
+    this.detach = null;
+  }
+
+  private update() {
+    if (this.downNow().length > 0) {
+      if (this.downAt === null) {
+        this.downAt = Date.now();
+        this.downSince.set(this.downAt);
+      }
+      // Only report the outage once it outlasts the grace period
+      if (!this.graceTimer) this.graceTimer = setTimeout(() => this.publishDown(), this.graceMs);
+      return;
+    }
+
+    if (this.graceTimer) clearTimeout(this.graceTimer);
+    this.graceTimer = null;
+    this.downNames.set([]);
+    if (this.downAt !== null) {
+      const since = this.downAt;
+      this.downAt = null;
+      this.downSince.set(null);
+      this.resync(since);
+    }
+  }
+
+  private downNow(): string[] {
+    return [...this.sources].filter(([, { state }]) => state === 'down').map(([name]) => name);
+  }
+
+  private publishDown() {
+    this.graceTimer = null;
+    this.downNames.set(this.downNow());
+  }
+
+  private resync(downSince: number) {
+    // Anything loaded before the drop may have changed on the server in the meantime
+    queryCache.invalidateBefore(downSince);
+    this.resyncListeners.forEach(listener => {
+      try {
+        listener(downSince);
+      } catch (e) {
+        console.error('Resync listener failed:', e);
+      }
+    });
+  }
+}
+
+export const connection = new ConnectionManager();
@@ -0,0 +1,42 @@
+// Unsaved editor content per tab (sessionStorage), so a reconnect that re-renders the LiveView,
+// or a reload, does not throw away work that has not reached the server yet
+
+const PREFIX = 'kyozo-draft:';
+
+export interface Draft<T> {
+  value: T;
+  savedAt: number;
+}
+
+function storage(): Storage | null {
+  try {
+    return typeof sessionStorage === 'undefined' ? null : sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+export const drafts = {
+  save<T>(key: string, value: T) {
+    try {
+      storage()?.setItem(PREFIX + key, JSON.stringify({ value, savedAt: Date.now() } satisfies Draft<T>));
+    } catch (e) {
+      // Quota exceeded: the in-memory copy is all we have
+      console.warn(`Could not keep draft ${key}:`, e);
+    }
+  },
+
+  load<T>(key: string): Draft<T> | null {
+    const raw = storage()?.getItem(PREFIX + key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as Draft<T>;
+    } catch {
+      return null;
+    }
+  },
+
+  clear(key: string) {
+    storage()?.removeItem(PREFIX + key);
+  }
+};
@@ -0,0 +1,254 @@
+// Normalized entity cache: one record per type and id, written by every API response. Nested
+// relationships are split out into their own records and resolved back on read, so a rename
+// shows up everywhere the entity is displayed.
+import { derived, get, writable, type Readable } from 'svelte/store';
+import type { Document, Notebook, NotebookTask, Team, User, Workspace } from '../../types';
+
+export interface EntityMap {
+  User: User;
+  Team: Team;
+  Workspace: Workspace;
+  Document: Document;
+  Notebook: Notebook;
+  NotebookTask: NotebookTask;
+}
+
+export type EntityKind = keyof EntityMap;
+
+interface Relation {
+  kind: EntityKind;
+  // `one`: the id field on the owner (document.workspace_id);
+  // `many`: the field on the related records pointing back (document.workspace_id)
+  foreignKey: string;
+  many?: boolean;
+}
+
+const RELATIONS: { [K in EntityKind]?: Record<string, Relation> } = {
+  Workspace: {
+    team: { kind: 'Team', foreignKey: 'team_id' },
+    created_by: { kind: 'User', foreignKey: 'created_by_id' },
+    documents: { kind: 'Document', foreignKey: 'workspace_id', many: true },
+    notebooks: { kind: 'Notebook', foreignKey: 'workspace_id', many: true }
+  },
+  Document: {
+    workspace: { kind: 'Workspace', foreignKey: 'workspace_id' },
+    team: { kind: 'Team', foreignKey: 'team_id' },
+    created_by: { kind: 'User', foreignKey: 'created_by_id' },
+    notebooks: { kind: 'Notebook', foreignKey: 'document_id', many: true }
+  },
+  Notebook: {
+    workspace: { kind: 'Workspace', foreignKey: 'workspace_id' },
+    document: { kind: 'Document', foreignKey: 'document_id' },
+    team: { kind: 'Team', foreignKey: 'team_id' },
+    created_by: { kind: 'User', foreignKey: 'created_by_id' },
+    tasks: { kind: 'NotebookTask', foreignKey: 'notebook_id', many: true }
+  }
+};
+
+const KINDS: EntityKind[] = ['User', 'Team', 'Workspace', 'Document', 'Notebook', 'NotebookTask'];
+
+type Records = Record<string, any>;
+
+export interface EntityTables {
+  records: Record<EntityKind, Map<string, Records>>;
+  // Ids of related records by foreign key value, for every `many` relation
+  // ('Document:workspace_id' -> workspace id -> document ids); kept in step with `records`
+  index: Map<string, Map<string, Set<string>>>;
+}
+
+function relationsOf(kind: EntityKind): Record<string, Relation> {
+  return RELATIONS[kind] ?? {};
+}
+
+function indexKey(kind: EntityKind, foreignKey: string): string {
+  return `${kind}:${foreignKey}`;
+}
+
+// Foreign keys on each kind that a `many` relation reads
+const INDEXED_KEYS = new Map<EntityKind, string[]>();
+Object.values(RELATIONS).forEach(relations => {
+  Object.values(relations ?? {}).forEach(({ kind, foreignKey, many }) => {
+    const keys = INDEXED_KEYS.get(kind) ?? [];
+    if (many && !keys.includes(foreignKey)) INDEXED_KEYS.set(kind, [...keys, foreignKey]);
+  });
+});
+
+function emptyTables(): EntityTables {
+  return {
+    records: Object.fromEntries(KINDS.map(kind => [kind, new Map()])) as EntityTables['records'],
+    index: new Map()
+  };
+}
+
+export function isEntityKind(name: string): name is EntityKind {
+  return (KINDS as string[]).includes(name);
+}
+
+/**
+ * An entity with its relationships looked up in `tables`. Related records are resolved one
+ * level deep, which keeps cycles (workspace -> documents -> workspace) out.
+ */
+function resolveIn<K extends EntityKind>(tables: EntityTables, kind: K, id: string, depth = 1): EntityMap[K] | undefined {
+  const record = tables.records[kind].get(id);
+  if (!record || depth === 0) return record as EntityMap[K] | undefined;
+
+  const resolved: Records = { ...record };
+  Object.entries(relationsOf(kind)).forEach(([field, relation]) => {
+    if (relation.many) {
+      const related: Records[] = [];
+      tables.index.get(indexKey(relation.kind, relation.foreignKey))?.get(id)?.forEach(relatedId => {
+        const item = tables.records[relation.kind].get(relatedId);
+        if (item) related.push(item);
+      });
+      if (related.length > 0) resolved[field] = related;
+    } else {
+      const relatedId = record[relation.foreignKey];
+      const related = relatedId ? resolveIn(tables, relation.kind, relatedId, depth - 1) : undefined;
+      if (related) resolved[field] = related;
+    }
+  });
+  return resolved as EntityMap[K];
+}
+
+/**
+ * Resolve list items through the cache, keeping any that are not cached (e.g. optimistic drafts)
+ */
+export function resolveList<T extends { id: string }>(tables: EntityTables, kind: EntityKind, items: T[]): T[] {
+  return items.map(item => (resolveIn(tables, kind, item.id) as T | undefined) ?? item);
+}
+
+export class EntityCache implements Readable<EntityTables> {
+  private tables = writable<EntityTables>(emptyTables());
+
+  subscribe = this.tables.subscribe;
+
+  /**
+   * Merge API data into the cache; nested relationships are cached as their own entities
+   */
+  write<K extends EntityKind>(kind: K, data: Partial<EntityMap[K]> | Partial<EntityMap[K]>[]) {
+    const items = Array.isArray(data) ? data : [data];
+    if (items.length === 0) return;
+
+    this.tables.update(tables => {
+      const next = { records: { ...tables.records }, index: new Map(tables.index) };
+      const touched = new Set<string>();
+      items.forEach(item => this.normalize(next, touched, kind, item as Records));
+      return next;
+    });
+  }
+
+  remove(kind: EntityKind, id: string) {
+    this.tables.update(tables => {
+      const previous = tables.records[kind].get(id);
+      if (!previous) return tables;
+      const next = { records: { ...tables.records, [kind]: new Map(tables.records[kind]) }, index: new Map(tables.index) };
+      next.records[kind].delete(id);
+      this.reindex(next, new Set(), kind, id, previous, undefined);
+      return next;
+    });
+  }
+
+  get<K extends EntityKind>(kind: K, id: string): EntityMap[K] | undefined {
+    return resolveIn(get(this.tables), kind, id);
+  }
+
+  /**
+   * The entity with its relationships; updates whenever it or a related entity changes
+   */
+  entity<K extends EntityKind>(kind: K, id: string): Readable<EntityMap[K] | undefined> {
+    return derived(this.tables, tables => resolveIn(tables, kind, id));
+  }
+
+  clear() {
+    this.tables.set(emptyTables());
+  }
+
+  // `touched` holds the tables, indexes and index buckets already copied in this write;
+  // later items in the same batch reuse the copy
+  private normalize(tables: EntityTables, touched: Set<string>, kind: EntityKind, item: Records) {
+    if (!item || typeof item !== 'object' || !item.id) return;
+
+    if (!touched.has(kind)) {
+      tables.records[kind] = new Map(tables.records[kind]);
+      touched.add(kind);
+    }
+
+    const record: Records = { ...item };
+    Object.entries(relationsOf(kind)).forEach(([field, relation]) => {
+      const nested = record[field];
+      delete record[field];
+      if (!nested) return;
+
+      if (relation.many && Array.isArray(nested)) {
+        nested.forEach(child => this.normalize(tables, touched, relation.kind, { [relation.foreignKey]: item.id, ...child }));
+      } else if (!relation.many && typeof nested === 'object') {
+        this.normalize(tables, touched, relation.kind, nested);
+        if (nested.id && !record[relation.foreignKey]) record[relation.foreignKey] = nested.id;
+      }
+    });
+
+    // List payloads are often partial; keep fields only a detail response had
+    const previous = tables.records[kind].get(item.id);
+    const merged = { ...previous, ...record };
+    tables.records[kind].set(item.id, merged);
+    this.reindex(tables, touched, kind, item.id, previous, merged);
+  }
+
+  // Move the record between index buckets for every indexed foreign key that changed
+  private reindex(tables: EntityTables, touched: Set<string>, kind: EntityKind, id: string, previous?: Records, next?: Records) {
+    INDEXED_KEYS.get(kind)?.forEach(foreignKey => {
+      const from = previous?.[foreignKey];
+      const to = next?.[foreignKey];
+      if (from === to) return;
+
+      const key = indexKey(kind, foreignKey);
+      if (!touched.has(key)) {
+        tables.index.set(key, new Map(tables.index.get(key)));
+        touched.add(key);
+      }
+      const buckets = tables.index.get(key)!;
+      const bucket = (value: string) => {
+        const bucketKey = `${key}=${value}`;
+        let ids = buckets.get(value);
+        if (!ids || !touched.has(bucketKey)) {
+          ids = new Set(ids);
+          buckets.set(value, ids);
+          touched.add(bucketKey);
+        }
+        return ids;
+      };
+
+      if (from) {
+        const ids = bucket(from);
+        ids.delete(id);
+        if (ids.size === 0) buckets.delete(from);
+      }
+      if (to) bucket(to).add(id);
+    });
+  }
+}
+
+export const entities = new EntityCache();
+
+/**
+ * A "current entity" store (current team, current workspace) that holds an id and reads the
+ * entity from the cache, so it never goes stale. Reads null once the entity is removed.
+ */
+export function entityRef<K extends EntityKind>(kind: K, cache: EntityCache = entities) {
+  const id = writable<string | null>(null);
+  const store = derived([id, cache], ([$id, tables]) => ($id ? (resolveIn(tables, kind, $id) ?? null) : null));
+
+  function set(value: EntityMap[K] | null) {
+    if (value) cache.write(kind, value);
+    id.set(value?.id ?? null);
+  }
+
+  return {
+    subscribe: store.subscribe,
+    set,
+    update(updater: (value: EntityMap[K] | null) => EntityMap[K] | null) {
+      set(updater(get(store)));
+    },
+    id: { subscribe: id.subscribe } as Readable<string | null>
+  };
+}
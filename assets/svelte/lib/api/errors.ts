@@ -0,0 +1,194 @@
+// Maps API error payloads onto the error classes declared in types/api.ts
+import {
+  NetworkError,
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  ApiRequestError,
+  TimeoutError,
+  RequestCancelledError,
+  ResponseValidationError,
+  type ApiError
+} from '../../types/api';
+
+export type ApiClientError =
+  | NetworkError
+  | ValidationError
+  | AuthenticationError
+  | AuthorizationError
+  | TimeoutError
+  | ApiRequestError;
+
+/**
+ * True for requests aborted by the caller or superseded within their scope
+ */
+export function isCancellation(error: unknown): error is RequestCancelledError {
+  return error instanceof RequestCancelledError;
+}
+
+interface ParsedErrorBody {
+  message?: string;
+  code?: string;
+  details?: any;
+  fieldErrors: Record<string, string[]>;
+}
+
+function addFieldError(fieldErrors: Record<string, string[]>, field: string, message: string) {
+  (fieldErrors[field] ||= []).push(message);
+}
+
+// "/data/attributes/name" -> "name", "/data/relationships/team" -> "team"
+function fieldFromPointer(pointer: string): string {
+  const parts = pointer.split('/').filter(Boolean);
+  const start = parts[0] === 'data' && ['attributes', 'relationships'].includes(parts[1]) ? 2 : 0;
+  return parts.slice(start).join('.') || 'base';
+}
+
+// Accepts `[{field, message}]` (Ash via ErrorJSON) or `{field: [messages]}` (Ecto changesets)
+function collectFieldErrors(source: any, fieldErrors: Record<string, string[]>) {
+  if (Array.isArray(source)) {
+    for (const item of source) {
+      if (item && typeof item === 'object' && item.message) {
+        addFieldError(fieldErrors, item.field ? String(item.field) : 'base', String(item.message));
+      }
+    }
+  } else if (source && typeof source === 'object') {
+    for (const [field, messages] of Object.entries(source)) {
+      if (Array.isArray(messages)) {
+        messages.forEach(message => addFieldError(fieldErrors, field, String(message)));
+      } else if (typeof messages === 'string') {
+        addFieldError(fieldErrors, field, messages);
+      }
+    }
+  }
+}
+
+function isJsonApiErrors(errors: any): boolean {
+  return Array.isArray(errors) && errors.some(e => e && typeof e === 'object' && ('detail' in e || 'source' in e || 'title' in e));
+}
+
+export function parseErrorBody(body: any): ParsedErrorBody {
+  const fieldErrors: Record<string, string[]> = {};
+
+  if (typeof body === 'string') {
+    return { message: body.trim() || undefined, fieldErrors };
+  }
+  if (!body || typeof body !== 'object') {
+    return { fieldErrors };
+  }
+
+  // JSON:API (AshJsonApi): { errors: [{ code, title, detail, source: { pointer } }] }
+  if (isJsonApiErrors(body.errors)) {
+    for (const error of body.errors) {
+      const message = error.detail || error.title || 'is invalid';
+      const field = error.source?.pointer
+        ? fieldFromPointer(error.source.pointer)
+        : error.source?.parameter || 'base';
+      addFieldError(fieldErrors, field, message);
+    }
+    const first = body.errors[0];
+    return {
+      message: first.detail || first.title,
+      code: first.code,
+      details: body.errors,
+      fieldErrors
+    };
+  }
+
+  // DirupWeb.ErrorJSON: { error: { message, code, details | errors } }
+  if (body.error && typeof body.error === 'object') {
+    collectFieldErrors(body.error.errors ?? body.error.details, fieldErrors);
+    return {
+      message: body.error.message,
+      code: body.error.code,
+      details: body.error.details ?? body.error.errors,
+      fieldErrors
+    };
+  }
+
+  // DirupWeb.ChangesetJSON: { errors: { field: [messages] } }
+  if (body.errors) {
+    collectFieldErrors(body.errors, fieldErrors);
+    return { message: 'Validation failed', details: body.errors, fieldErrors };
+  }
+
+  return {
+    message: typeof body.error === 'string' ? body.error : body.message,
+    fieldErrors
+  };
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function createApiError(status: number, statusText: string, body: any, headers?: Headers): ApiClientError {
+  const parsed = parseErrorBody(body);
+  const message = parsed.message || `HTTP ${status}: ${statusText}`;
+
+  if (status === 401) {
+    return new AuthenticationError(parsed.message);
+  }
+  if (status === 403) {
+    return new AuthorizationError(parsed.message);
+  }
+  if (status === 422 || (status === 400 && Object.keys(parsed.fieldErrors).length > 0)) {
+    return new ValidationError(message, parsed.fieldErrors);
+  }
+  const retryAfterMs = parseRetryAfter(headers?.get('retry-after')) ??
+    parseRetryAfter(body?.error?.retry_after != null ? String(body.error.retry_after) : undefined);
+  return new ApiRequestError(message, status, parsed.code, parsed.details, retryAfterMs);
+}
+
+/**
+ * Builds the typed error for a failed `fetch` response, reading its body
+ */
+export async function errorFromResponse(response: Response): Promise<ApiClientError> {
+  let body: any;
+  try {
+    const contentType = response.headers.get('content-type') || '';
+    body = contentType.includes('json') ? await response.json() : await response.text();
+  } catch {
+    body = undefined;
+  }
+  return createApiError(response.status, response.statusText, body, response.headers);
+}
+
+/**
+ * Normalizes any thrown value into the `ApiError` shape kept in `ApiState.error`
+ */
+export function toApiError(error: unknown): ApiError {
+  const timestamp = new Date().toISOString();
+
+  if (error instanceof ApiRequestError) {
+    return { status: error.status, code: error.code, message: error.message, details: error.details, timestamp };
+  }
+  if (error instanceof ValidationError) {
+    return { status: 422, code: 'validation_failed', message: error.message, details: error.errors, timestamp };
+  }
+  if (error instanceof AuthenticationError) {
+    return { status: 401, code: 'authentication_required', message: error.message, timestamp };
+  }
+  if (error instanceof AuthorizationError) {
+    return { status: 403, code: 'access_denied', message: error.message, timestamp };
+  }
+  if (error instanceof TimeoutError) {
+    return { status: 408, code: 'timeout', message: error.message, details: { timeout: error.timeout }, timestamp };
+  }
+  if (error instanceof ResponseValidationError) {
+    return { status: 0, code: 'invalid_response', message: error.message, details: error.issues, timestamp };
+  }
+  if (error instanceof NetworkError) {
+    return { status: 0, code: 'network_error', message: error.message, timestamp };
+  }
+  return {
+    status: 0,
+    message: error instanceof Error ? error.message : String(error),
+    timestamp
+  };
+}
@@ -0,0 +1,147 @@
+// Typed events for DirupWeb.ExecutionChannel (`execution:{notebook,container,file,workspace}:{id}`)
+import type { Readable } from 'svelte/store';
+import {
+  channels,
+  channelStore,
+  eventStore,
+  presenceStore,
+  type ChannelClient,
+  type ChannelHandle,
+  type ChannelMessage,
+  type PresenceEntry
+} from './channels';
+
+export type ExecutionResource = 'notebook' | 'container' | 'file' | 'workspace';
+
+export type ExecutionTopic<R extends ExecutionResource = ExecutionResource> = `execution:${R}:${string}`;
+
+export function executionTopic<R extends ExecutionResource>(resource: R, id: string): ExecutionTopic<R> {
+  return `execution:${resource}:${id}`;
+}
+
+export interface ExecutionProgress {
+  status: 'running' | 'completed' | 'failed' | 'stopped' | (string & {});
+  progress?: number;
+  cell_id?: string;
+}
+
+export interface CellOutput {
+  type: 'text' | 'error' | 'html' | 'image' | (string & {});
+  content: string;
+}
+
+// Reply to `get_status` and the `current_status` push after joining
+export type ResourceStatus =
+  | { type: 'notebook'; id: string; status: string; last_execution: string | null }
+  | { type: 'container'; id: string; status: string; uptime: number | null; deployment_status: string }
+  | { type: 'file'; id: string; name: string; last_modified: string; processing_status: string }
+  | { type: 'workspace'; id: string; name: string; active_executions: string[] };
+
+export type ActivityStatus = 'active' | 'idle' | 'typing';
+
+export interface PresenceMeta {
+  online_at: string;
+  status: ActivityStatus;
+  // Page the user is on, set through `presence_status`
+  location: string | null;
+  user: { id: string; name: string };
+}
+
+export interface ExecutionEvents {
+  current_status: ResourceStatus;
+  execution_started: { execution_id: string; started_by: string; started_at: string };
+  cell_execution_started: { cell_id: string; execution_id: string; started_by: string; started_at: string };
+  execution_update: { execution_id: string; status: ExecutionProgress; timestamp: string };
+  execution_stopped: { execution_id: string; stopped_by: string; stopped_at: string };
+  cell_output: { execution_id: string; cell_id: string; output: CellOutput; timestamp: string };
+  deployment_started: { deployment_id: string; started_by: string; started_at: string };
+  deployment_update: { deployment_id: string; status: Record<string, unknown> | string; timestamp: string };
+  container_logs: { container_id: string; logs: string | string[]; timestamp: string };
+  ai_progress: { task_id: string; progress: number | Record<string, unknown>; timestamp: string };
+  markdown_parsed: { file_id: string; semantic_data: Record<string, unknown>; timestamp: string };
+  cursor_moved: { user_id: string; position: unknown; timestamp: string };
+  selection_changed: { user_id: string; range: unknown; timestamp: string };
+  presence_state: Record<string, { metas: PresenceMeta[] }>;
+  presence_diff: { joins: Record<string, { metas: PresenceMeta[] }>; leaves: Record<string, { metas: PresenceMeta[] }> };
+}
+
+export type ExecutionMessage = ChannelMessage<ExecutionEvents>;
+
+export interface ExecutionPushes {
+  execute: {
+    payload: { type: 'notebook' } | { type: 'cell'; cell_id: string } | { type: 'container' };
+    reply: { execution_id?: string; deployment_id?: string };
+  };
+  stop: { payload: { execution_id: string }; reply: void };
+  get_status: { payload: Record<string, never>; reply: ResourceStatus };
+  subscribe_logs: { payload: { execution_id: string }; reply: void };
+  cursor_move: { payload: { position: unknown }; reply: never };
+  selection_change: { payload: { range: unknown }; reply: never };
+  presence_status: { payload: { status: ActivityStatus; location?: string }; reply: never };
+}
+
+export type ExecutionChannel = ChannelHandle<ExecutionEvents, ExecutionPushes>;
+
+/**
+ * Join an execution topic; call `leave()` on the handle when done
+ */
+export function joinExecution(resource: ExecutionResource, id: string, client: ChannelClient = channels): ExecutionChannel {
+  return client.join<ExecutionEvents, ExecutionPushes>(executionTopic(resource, id));
+}
+
+export interface ExecutionSnapshot {
+  status: ResourceStatus | null;
+  // Latest progress per execution id
+  executions: Record<string, ExecutionProgress>;
+  // Output chunks per cell, in arrival order
+  outputs: Record<string, CellOutput[]>;
+}
+
+function reduceExecution(snapshot: ExecutionSnapshot, message: ExecutionMessage): ExecutionSnapshot {
+  switch (message.event) {
+    case 'current_status':
+      return { ...snapshot, status: message.payload };
+    case 'execution_started':
+      return { ...snapshot, executions: { ...snapshot.executions, [message.payload.execution_id]: { status: 'running', progress: 0 } } };
+    case 'execution_update':
+      return { ...snapshot, executions: { ...snapshot.executions, [message.payload.execution_id]: message.payload.status } };
+    case 'execution_stopped':
+      return { ...snapshot, executions: { ...snapshot.executions, [message.payload.execution_id]: { status: 'stopped' } } };
+    case 'cell_execution_started':
+      return { ...snapshot, outputs: { ...snapshot.outputs, [message.payload.cell_id]: [] } };
+    case 'cell_output': {
+      const { cell_id, output } = message.payload;
+      return { ...snapshot, outputs: { ...snapshot.outputs, [cell_id]: [...(snapshot.outputs[cell_id] ?? []), output] } };
+    }
+    default:
+      return snapshot;
+  }
+}
+
+/**
+ * Status, execution progress and cell output of a resource while subscribed
+ */
+export function executionStore(resource: ExecutionResource, id: string, client: ChannelClient = channels): Readable<ExecutionSnapshot> {
+  return channelStore<ExecutionEvents, ExecutionSnapshot>(
+    executionTopic(resource, id),
+    reduceExecution,
+    { status: null, executions: {}, outputs: {} },
+    client
+  );
+}
+
+/**
+ * Latest payload of one execution event
+ */
+export function executionEvent<K extends keyof ExecutionEvents & string>(
+  resource: ExecutionResource,
+  id: string,
+  event: K,
+  client: ChannelClient = channels
+): Readable<ExecutionEvents[K] | undefined> {
+  return eventStore<ExecutionEvents, K>(executionTopic(resource, id), event, client);
+}
+
+export function executionPresence(resource: ExecutionResource, id: string, client: ChannelClient = channels): Readable<PresenceEntry<PresenceMeta>[]> {
+  return presenceStore<PresenceMeta>(executionTopic(resource, id), client);
+}
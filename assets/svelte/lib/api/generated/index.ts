@@ -0,0 +1,548 @@
+// Generated by scripts/generate-api.mjs from openapi.json (Kyozo API 1.0.0).
+// Do not edit by hand: run `pnpm api:generate` after updating the snapshot.
+import type { ApiRequestOptions } from '../../../types/api';
+import type { ApiClient } from '../client';
+import { callOperation, type OperationDescriptor } from '../openapi-runtime';
+
+// Schemas
+
+export interface AIConfidenceRequest {
+  /** Programming language */
+  language: string;
+  /** Code to analyze */
+  text: string;
+}
+
+export interface AIConfidenceResponse {
+  confidence_score?: number;
+  issues?: {
+    line?: number;
+    message?: string;
+    severity?: 'error' | 'warning' | 'info';
+    type?: string;
+  }[];
+}
+
+export interface AISuggestRequest {
+  /** Additional context */
+  context?: string;
+  max_suggestions?: number;
+  /** Text to get suggestions for */
+  text: string;
+}
+
+export interface AISuggestResponse {
+  suggestions?: {
+    confidence?: number;
+    explanation?: string;
+    text?: string;
+  }[];
+}
+
+export interface Error {
+  /** Additional error details */
+  details?: Record<string, any>;
+  /** Error message */
+  error: string;
+}
+
+export interface File {
+  content_type: string;
+  created_at?: string;
+  file_path: string;
+  id: string;
+  is_directory?: boolean;
+  name: string;
+  parent_file_id?: string | null;
+  size?: number;
+  updated_at?: string;
+  workspace_id: string;
+}
+
+export interface FileCreateRequest {
+  content?: string;
+  content_type?: string;
+  name: string;
+  parent_file_id?: string | null;
+}
+
+export interface FileUpdateRequest {
+  content?: string;
+  name?: string;
+}
+
+export interface Notebook {
+  /** Raw markdown content */
+  content: string;
+  /** Rendered HTML */
+  content_html?: string;
+  created_at?: string;
+  document_id: string;
+  execution_state?: Record<string, any>;
+  extracted_tasks?: {
+    code?: string;
+    id?: string;
+    language?: string;
+    position?: number;
+  }[];
+  id: string;
+  status: 'draft' | 'running' | 'completed' | 'error';
+  title: string;
+  updated_at?: string;
+  workspace_id?: string;
+}
+
+export interface NotebookCreateRequest {
+  auto_save_enabled?: boolean;
+  title?: string;
+}
+
+export interface NotebookExecuteRequest {
+  environment_variables?: Record<string, string>;
+}
+
+export interface TaskExecuteRequest {
+  environment_variables?: Record<string, string>;
+  task_id: string;
+}
+
+export interface Team {
+  created_at?: string;
+  description?: string;
+  id: string;
+  name: string;
+  personal?: boolean;
+  slug: string;
+  updated_at?: string;
+}
+
+export interface VFSContent {
+  content?: string;
+  content_type?: string;
+  path?: string;
+  virtual?: boolean;
+}
+
+export interface VFSFile {
+  content_type?: string;
+  generator?: string;
+  icon?: string;
+  name: string;
+  path: string;
+  size?: number;
+  type: 'file' | 'directory';
+  virtual: boolean;
+}
+
+export interface VFSListing {
+  files?: VFSFile[];
+  path?: string;
+  virtual_count?: number;
+}
+
+export interface Workspace {
+  created_at?: string;
+  description?: string;
+  id: string;
+  name: string;
+  status: 'active' | 'archived' | 'deleted';
+  team_id: string;
+  updated_at?: string;
+}
+
+// Operations
+
+export const operations = {
+  aiConfidence: {
+    operationId: 'aiConfidence',
+    method: 'POST',
+    path: '/ai/confidence',
+    pathParams: [],
+    queryParams: []
+  },
+  aiSuggest: {
+    operationId: 'aiSuggest',
+    method: 'POST',
+    path: '/ai/suggest',
+    pathParams: [],
+    queryParams: []
+  },
+  createFile: {
+    operationId: 'createFile',
+    method: 'POST',
+    path: '/teams/{team_id}/files',
+    pathParams: ['team_id'],
+    queryParams: []
+  },
+  createNotebookFromFile: {
+    operationId: 'createNotebookFromFile',
+    method: 'POST',
+    path: '/teams/{team_id}/files/{file_id}/notebooks',
+    pathParams: ['team_id', 'file_id'],
+    queryParams: []
+  },
+  createTeam: {
+    operationId: 'createTeam',
+    method: 'POST',
+    path: '/teams',
+    pathParams: [],
+    queryParams: []
+  },
+  createWorkspace: {
+    operationId: 'createWorkspace',
+    method: 'POST',
+    path: '/teams/{team_id}/workspaces',
+    pathParams: ['team_id'],
+    queryParams: []
+  },
+  deleteFile: {
+    operationId: 'deleteFile',
+    method: 'DELETE',
+    path: '/teams/{team_id}/files/{id}',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  },
+  deleteNotebook: {
+    operationId: 'deleteNotebook',
+    method: 'DELETE',
+    path: '/teams/{team_id}/notebooks/{id}',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  },
+  executeNotebook: {
+    operationId: 'executeNotebook',
+    method: 'POST',
+    path: '/teams/{team_id}/notebooks/{id}/execute',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  },
+  executeTask: {
+    operationId: 'executeTask',
+    method: 'POST',
+    path: '/teams/{team_id}/notebooks/{id}/execute/{task_id}',
+    pathParams: ['team_id', 'id', 'task_id'],
+    queryParams: []
+  },
+  getFile: {
+    operationId: 'getFile',
+    method: 'GET',
+    path: '/teams/{team_id}/files/{id}',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  },
+  getFileContent: {
+    operationId: 'getFileContent',
+    method: 'GET',
+    path: '/teams/{team_id}/files/{id}/content',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  },
+  getNotebook: {
+    operationId: 'getNotebook',
+    method: 'GET',
+    path: '/teams/{team_id}/notebooks/{id}',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  },
+  listFiles: {
+    operationId: 'listFiles',
+    method: 'GET',
+    path: '/teams/{team_id}/files',
+    pathParams: ['team_id'],
+    queryParams: ['workspace_id', 'parent_file_id']
+  },
+  listTeams: {
+    operationId: 'listTeams',
+    method: 'GET',
+    path: '/teams',
+    pathParams: [],
+    queryParams: []
+  },
+  listVFS: {
+    operationId: 'listVFS',
+    method: 'GET',
+    path: '/teams/{team_id}/workspaces/{workspace_id}/storage/vfs',
+    pathParams: ['team_id', 'workspace_id'],
+    queryParams: ['path']
+  },
+  listWorkspaces: {
+    operationId: 'listWorkspaces',
+    method: 'GET',
+    path: '/teams/{team_id}/workspaces',
+    pathParams: ['team_id'],
+    queryParams: []
+  },
+  readVFS: {
+    operationId: 'readVFS',
+    method: 'GET',
+    path: '/teams/{team_id}/workspaces/{workspace_id}/storage/vfs/content',
+    pathParams: ['team_id', 'workspace_id'],
+    queryParams: ['path']
+  },
+  updateFile: {
+    operationId: 'updateFile',
+    method: 'PATCH',
+    path: '/teams/{team_id}/files/{id}',
+    pathParams: ['team_id', 'id'],
+    queryParams: []
+  }
+} satisfies Record<string, OperationDescriptor>;
+
+export type OperationId = keyof typeof operations;
+
+export type AiConfidenceBody = AIConfidenceRequest;
+
+export type AiConfidenceResponse = AIConfidenceResponse;
+
+/** Analyze code confidence (POST /ai/confidence) */
+export function aiConfidence(client: ApiClient, body: AiConfidenceBody, options?: ApiRequestOptions): Promise<AiConfidenceResponse> {
+  return callOperation<AiConfidenceResponse>(client, operations.aiConfidence, { body, options });
+}
+
+export type AiSuggestBody = AISuggestRequest;
+
+export type AiSuggestResponse = AISuggestResponse;
+
+/** Get AI suggestions (POST /ai/suggest) */
+export function aiSuggest(client: ApiClient, body: AiSuggestBody, options?: ApiRequestOptions): Promise<AiSuggestResponse> {
+  return callOperation<AiSuggestResponse>(client, operations.aiSuggest, { body, options });
+}
+
+export interface CreateFileParams {
+  team_id: string;
+}
+
+export type CreateFileBody = FileCreateRequest;
+
+export interface CreateFileResponse {
+  data?: File;
+}
+
+/** Create file (POST /teams/{team_id}/files) */
+export function createFile(client: ApiClient, params: CreateFileParams, body: CreateFileBody, options?: ApiRequestOptions): Promise<CreateFileResponse> {
+  return callOperation<CreateFileResponse>(client, operations.createFile, { params, body, options });
+}
+
+export interface CreateNotebookFromFileParams {
+  team_id: string;
+  file_id: string;
+}
+
+export type CreateNotebookFromFileBody = NotebookCreateRequest;
+
+export interface CreateNotebookFromFileResponse {
+  data?: Notebook;
+}
+
+/** Create notebook from file (POST /teams/{team_id}/files/{file_id}/notebooks) */
+export function createNotebookFromFile(client: ApiClient, params: CreateNotebookFromFileParams, body: CreateNotebookFromFileBody, options?: ApiRequestOptions): Promise<CreateNotebookFromFileResponse> {
+  return callOperation<CreateNotebookFromFileResponse>(client, operations.createNotebookFromFile, { params, body, options });
+}
+
+export interface CreateTeamBody {
+  description?: string;
+  name: string;
+}
+
+export interface CreateTeamResponse {
+  data?: Team;
+}
+
+/** Create team (POST /teams) */
+export function createTeam(client: ApiClient, body: CreateTeamBody, options?: ApiRequestOptions): Promise<CreateTeamResponse> {
+  return callOperation<CreateTeamResponse>(client, operations.createTeam, { body, options });
+}
+
+export interface CreateWorkspaceParams {
+  team_id: string;
+}
+
+export interface CreateWorkspaceBody {
+  description?: string;
+  name: string;
+}
+
+export interface CreateWorkspaceResponse {
+  data?: Workspace;
+}
+
+/** Create workspace (POST /teams/{team_id}/workspaces) */
+export function createWorkspace(client: ApiClient, params: CreateWorkspaceParams, body: CreateWorkspaceBody, options?: ApiRequestOptions): Promise<CreateWorkspaceResponse> {
+  return callOperation<CreateWorkspaceResponse>(client, operations.createWorkspace, { params, body, options });
+}
+
+export interface DeleteFileParams {
+  team_id: string;
+  id: string;
+}
+
+export type DeleteFileResponse = void;
+
+/** Delete file (DELETE /teams/{team_id}/files/{id}) */
+export function deleteFile(client: ApiClient, params: DeleteFileParams, options?: ApiRequestOptions): Promise<DeleteFileResponse> {
+  return callOperation<DeleteFileResponse>(client, operations.deleteFile, { params, options });
+}
+
+export interface DeleteNotebookParams {
+  team_id: string;
+  id: string;
+}
+
+export type DeleteNotebookResponse = void;
+
+/** Delete notebook (DELETE /teams/{team_id}/notebooks/{id}) */
+export function deleteNotebook(client: ApiClient, params: DeleteNotebookParams, options?: ApiRequestOptions): Promise<DeleteNotebookResponse> {
+  return callOperation<DeleteNotebookResponse>(client, operations.deleteNotebook, { params, options });
+}
+
+export interface ExecuteNotebookParams {
+  team_id: string;
+  id: string;
+}
+
+export type ExecuteNotebookBody = NotebookExecuteRequest;
+
+export interface ExecuteNotebookResponse {
+  data?: Notebook;
+}
+
+/** Execute notebook (POST /teams/{team_id}/notebooks/{id}/execute) */
+export function executeNotebook(client: ApiClient, params: ExecuteNotebookParams, body?: ExecuteNotebookBody, options?: ApiRequestOptions): Promise<ExecuteNotebookResponse> {
+  return callOperation<ExecuteNotebookResponse>(client, operations.executeNotebook, { params, body, options });
+}
+
+export interface ExecuteTaskParams {
+  team_id: string;
+  id: string;
+  task_id: string;
+}
+
+export type ExecuteTaskBody = TaskExecuteRequest;
+
+export interface ExecuteTaskResponse {
+  data?: Notebook;
+}
+
+/** Execute task (POST /teams/{team_id}/notebooks/{id}/execute/{task_id}) */
+export function executeTask(client: ApiClient, params: ExecuteTaskParams, body?: ExecuteTaskBody, options?: ApiRequestOptions): Promise<ExecuteTaskResponse> {
+  return callOperation<ExecuteTaskResponse>(client, operations.executeTask, { params, body, options });
+}
+
+export interface GetFileParams {
+  team_id: string;
+  id: string;
+}
+
+export interface GetFileResponse {
+  data?: File;
+}
+
+/** Get file (GET /teams/{team_id}/files/{id}) */
+export function getFile(client: ApiClient, params: GetFileParams, options?: ApiRequestOptions): Promise<GetFileResponse> {
+  return callOperation<GetFileResponse>(client, operations.getFile, { params, options });
+}
+
+export interface GetFileContentParams {
+  team_id: string;
+  id: string;
+}
+
+export type GetFileContentResponse = string;
+
+/** Get file content (GET /teams/{team_id}/files/{id}/content) */
+export function getFileContent(client: ApiClient, params: GetFileContentParams, options?: ApiRequestOptions): Promise<GetFileContentResponse> {
+  return callOperation<GetFileContentResponse>(client, operations.getFileContent, { params, options });
+}
+
+export interface GetNotebookParams {
+  team_id: string;
+  id: string;
+}
+
+export interface GetNotebookResponse {
+  data?: Notebook;
+}
+
+/** Get notebook (GET /teams/{team_id}/notebooks/{id}) */
+export function getNotebook(client: ApiClient, params: GetNotebookParams, options?: ApiRequestOptions): Promise<GetNotebookResponse> {
+  return callOperation<GetNotebookResponse>(client, operations.getNotebook, { params, options });
+}
+
+export interface ListFilesParams {
+  team_id: string;
+  workspace_id?: string;
+  parent_file_id?: string;
+}
+
+export interface ListFilesResponse {
+  data?: File[];
+}
+
+/** List files (GET /teams/{team_id}/files) */
+export function listFiles(client: ApiClient, params: ListFilesParams, options?: ApiRequestOptions): Promise<ListFilesResponse> {
+  return callOperation<ListFilesResponse>(client, operations.listFiles, { params, options });
+}
+
+export interface ListTeamsResponse {
+  data?: Team[];
+}
+
+/** List teams (GET /teams) */
+export function listTeams(client: ApiClient, options?: ApiRequestOptions): Promise<ListTeamsResponse> {
+  return callOperation<ListTeamsResponse>(client, operations.listTeams, { options });
+}
+
+export interface ListVFSParams {
+  team_id: string;
+  workspace_id: string;
+  path?: string;
+}
+
+export type ListVFSResponse = VFSListing;
+
+/** List VFS files (GET /teams/{team_id}/workspaces/{workspace_id}/storage/vfs) */
+export function listVFS(client: ApiClient, params: ListVFSParams, options?: ApiRequestOptions): Promise<ListVFSResponse> {
+  return callOperation<ListVFSResponse>(client, operations.listVFS, { params, options });
+}
+
+export interface ListWorkspacesParams {
+  team_id: string;
+}
+
+export interface ListWorkspacesResponse {
+  data?: Workspace[];
+}
+
+/** List workspaces (GET /teams/{team_id}/workspaces) */
+export function listWorkspaces(client: ApiClient, params: ListWorkspacesParams, options?: ApiRequestOptions): Promise<ListWorkspacesResponse> {
+  return callOperation<ListWorkspacesResponse>(client, operations.listWorkspaces, { params, options });
+}
+
+export interface ReadVFSParams {
+  team_id: string;
+  workspace_id: string;
+  path: string;
+}
+
+export type ReadVFSResponse = VFSContent;
+
+/** Read VFS file (GET /teams/{team_id}/workspaces/{workspace_id}/storage/vfs/content) */
+export function readVFS(client: ApiClient, params: ReadVFSParams, options?: ApiRequestOptions): Promise<ReadVFSResponse> {
+  return callOperation<ReadVFSResponse>(client, operations.readVFS, { params, options });
+}
+
+export interface UpdateFileParams {
+  team_id: string;
+  id: string;
+}
+
+export type UpdateFileBody = FileUpdateRequest;
+
+export interface UpdateFileResponse {
+  data?: File;
+}
+
+/** Update file (PATCH /teams/{team_id}/files/{id}) */
+export function updateFile(client: ApiClient, params: UpdateFileParams, body: UpdateFileBody, options?: ApiRequestOptions): Promise<UpdateFileResponse> {
+  return callOperation<UpdateFileResponse>(client, operations.updateFile, { params, body, options });
+}
@@ -0,0 +1,292 @@
+// Live container logs for one service: backfill from `GET /services/:id/logs`, then `container_logs`
+// pushes after `subscribe_logs` on the container's execution topic, polling the REST route whenever
+// the channel is not joined or no push has arrived yet. Lines are kept in a capped, append-only buffer.
+import { writable, type Readable } from 'svelte/store';
+import { channels, type ChannelClient, type ChannelState } from './channels';
+import { joinExecution } from './execution-channel';
+import { parseAnsi, stripAnsi, type AnsiStyle } from '../ansi';
+import type { ApiService } from '../../services/api';
+
+export interface LogLine {
+  // Stable across trimming; usable as a key
+  id: number;
+  text: string;
+  // ANSI style carried over from the previous line
+  style: AnsiStyle | null;
+}
+
+export type LogStreamMode = 'connecting' | 'live' | 'polling';
+
+export interface LogStreamState {
+  mode: LogStreamMode;
+  // Same array instance between updates; `version` changes whenever lines were added or dropped
+  lines: readonly LogLine[];
+  version: number;
+  // Lines dropped from the head to stay under the cap
+  dropped: number;
+  error: string | null;
+}
+
+export interface LogStreamOptions {
+  api: () => ApiService | null;
+  client?: ChannelClient;
+  // Most lines kept in memory
+  cap?: number;
+  backfillLines?: number;
+  pollIntervalMs?: number;
+  fallbackAfterMs?: number;
+}
+
+export interface LogStream extends Readable<LogStreamState> {
+  clear(): void;
+  // Plain text of every buffered line, for export
+  text(): string;
+  stop(): void;
+}
+
+// Fetched tails are matched against this many of the latest lines
+const OVERLAP_LINES = 50;
+
+// Index in `lines` just past the part `known` already ends with; 0 when they do not overlap.
+// Matching several lines keeps a repeated last line from being mistaken for the end.
+function overlapEnd(lines: readonly string[], known: readonly string[]): number {
+  for (let end = lines.length; end > 0; end--) {
+    const length = Math.min(end, known.length);
+    if (length === 0) return 0;
+    let same = true;
+    for (let i = 1; i <= length && same; i++) same = lines[end - i] === known[known.length - i];
+    if (same) return end;
+  }
+  return 0;
+}
+
+/**
+ * Append-only line buffer with a cap. Trimming happens in batches so appending stays O(1) amortized.
+ */
+export class LogBuffer {
+  readonly lines: LogLine[] = [];
+  dropped = 0;
+  private nextId = 0;
+  // Text after the last newline of the previous chunk
+  private partial = '';
+  private style: AnsiStyle = {};
+  // Latest lines; survives clear(), so a poll after clearing does not bring old lines back
+  private recent: string[] = [];
+
+  constructor(readonly cap: number) {}
+
+  /**
+   * Append a pushed chunk; returns whether any complete line was added
+   */
+  append(chunk: string | string[]): boolean {
+    const lines = this.complete(chunk);
+    lines.forEach(text => this.push(text));
+    return lines.length > 0;
+  }
+
+  appendLines(lines: string[]) {
+    this.flush();
+    lines.forEach(text => this.push(text));
+  }
+
+  /**
+   * Append what follows the lines the buffer already ends with, e.g. from a fetched tail
+   */
+  appendFresh(lines: string[]): boolean {
+    const fresh = lines.slice(overlapEnd(lines, this.recent));
+    if (fresh.length === 0) return false;
+    this.appendLines(fresh);
+    return true;
+  }
+
+  /**
+   * Complete lines of a pushed chunk; a trailing partial line is kept for the next one
+   */
+  complete(chunk: string | string[]): string[] {
+    if (Array.isArray(chunk)) {
+      const lines = this.partial ? [this.partial, ...chunk] : chunk;
+      this.partial = '';
+      return lines;
+    }
+    const parts = (this.partial + chunk).split(/\r?\n/);
+    this.partial = parts.pop() ?? '';
+    return parts;
+  }
+
+  // Emit a dangling partial line, e.g. before switching sources
+  flush() {
+    if (!this.partial) return;
+    this.push(this.partial);
+    this.partial = '';
+  }
+
+  clear() {
+    this.dropped += this.lines.length;
+    this.lines.length = 0;
+    this.partial = '';
+    this.style = {};
+  }
+
+  private push(text: string) {
+    const start = this.style;
+    // Only lines with escapes can change the style for the next one
+    if (text.includes('\x1b')) this.style = parseAnsi(text, start).style;
+    this.lines.push({ id: this.nextId++, text, style: Object.keys(start).length > 0 ? start : null });
+    this.recent.push(text);
+    if (this.recent.length > OVERLAP_LINES) this.recent.shift();
+
+    if (this.lines.length > this.cap + Math.max(1, Math.floor(this.cap / 10))) {
+      const excess = this.lines.length - this.cap;
+      this.lines.splice(0, excess);
+      this.dropped += excess;
+    }
+  }
+}
+
+/**
+ * Tail the logs of a service until `stop()`
+ */
+export function createLogStream(serviceId: string, options: LogStreamOptions): LogStream {
+  const {
+    api,
+    client = channels,
+    cap = 100_000,
+    backfillLines = 500,
+    pollIntervalMs = 3_000,
+    fallbackAfterMs = 5_000
+  } = options;
+  const buffer = new LogBuffer(cap);
+  let mode: LogStreamMode = 'connecting';
+  let error: string | null = null;
+  let version = 0;
+  let frame: number | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let fallbackTimer: ReturnType<typeof setTimeout> | undefined;
+  let polling = false;
+  let stopped = false;
+  // Until the first push, a joined channel does not prove anything publishes to the topic
+  let pushed = false;
+  // Pushes that arrive while a tail is being fetched, appended after it so lines stay in order
+  let held: (string | string[])[] | null = null;
+
+  const snapshot = (): LogStreamState => ({ mode, lines: buffer.lines, version, dropped: buffer.dropped, error });
+  const state = writable<LogStreamState>(snapshot());
+
+  // Busy containers log hundreds of lines a second; publish at most once per frame
+  function publish() {
+    version++;
+    if (frame !== null) return;
+    const flush = () => {
+      frame = null;
+      state.set(snapshot());
+    };
+    if (typeof requestAnimationFrame === 'undefined') return flush();
+    frame = requestAnimationFrame(flush);
+  }
+
+  function appendTail(logs: string) {
+    const lines = logs.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    if (buffer.appendFresh(lines)) publish();
+  }
+
+  async function fetchTail(lines: number) {
+    const service = api();
+    if (!service || polling) return;
+    polling = true;
+    held = [];
+    try {
+      const { data } = await service.getServiceLogs(serviceId, { lines });
+      if (stopped) return;
+      error = null;
+      appendTail(data.logs ?? '');
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Could not load logs';
+      publish();
+    } finally {
+      polling = false;
+      const pending = held;
+      held = null;
+      // The fetched tail may already contain some of them
+      if (!stopped && pending.length > 0 && buffer.appendFresh(pending.flatMap(chunk => buffer.complete(chunk)))) {
+        publish();
+      }
+    }
+  }
+
+  function setMode(next: LogStreamMode) {
+    if (mode === next) return;
+    mode = next;
+    publish();
+  }
+
+  function startPolling() {
+    if (pollTimer) return;
+    setMode('polling');
+    pollTimer = setInterval(() => fetchTail(backfillLines), pollIntervalMs);
+  }
+
+  function stopPolling() {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+
+  const handle = joinExecution('container', serviceId, client);
+  handle.on('container_logs', ({ logs }) => {
+    if (!pushed) {
+      pushed = true;
+      stopPolling();
+      setMode('live');
+    }
+    if (held) held.push(logs);
+    else if (buffer.append(logs)) publish();
+  });
+
+  const unsubscribeState = handle.state.subscribe((channelState: ChannelState) => {
+    if (channelState.status === 'joined') {
+      clearTimeout(fallbackTimer);
+      fallbackTimer = undefined;
+      stopPolling();
+      handle.push('subscribe_logs', { execution_id: serviceId }).then(
+        () => {
+          if (pushed) setMode('live');
+          else startPolling();
+          // Catch up on anything logged while we were away
+          fetchTail(backfillLines);
+        },
+        e => {
+          console.warn('Log subscription failed:', e);
+          startPolling();
+        }
+      );
+    } else if (channelState.status === 'failed') {
+      startPolling();
+    } else if (!pollTimer && !fallbackTimer) {
+      fallbackTimer = setTimeout(() => {
+        fallbackTimer = undefined;
+        startPolling();
+      }, fallbackAfterMs);
+    }
+  });
+
+  fetchTail(backfillLines);
+
+  return {
+    subscribe: state.subscribe,
+    clear() {
+      buffer.clear();
+      publish();
+    },
+    text() {
+      return buffer.lines.map(line => stripAnsi(line.text)).join('\n');
+    },
+    stop() {
+      stopped = true;
+      if (frame !== null && typeof cancelAnimationFrame !== 'undefined') cancelAnimationFrame(frame);
+      unsubscribeState();
+      clearTimeout(fallbackTimer);
+      stopPolling();
+      handle.leave();
+    }
+  };
+}
@@ -0,0 +1,360 @@
+// Seed data for the in-memory API: one user, two teams, and a workspace per team with documents,
+// notebooks, container services, a topology analysis and deployment history
+import type {
+  Document,
+  Notebook,
+  NotebookTask,
+  Team,
+  TeamInvitation,
+  User,
+  UserTeam,
+  Workspace
+} from '../../../types';
+import type { ContainerService, DeploymentEvent, TopologyAnalysis } from '../../../types/containers';
+
+export interface MockDatabase {
+  currentUserId: string;
+  users: User[];
+  teams: Team[];
+  memberships: UserTeam[];
+  invitations: TeamInvitation[];
+  workspaces: Workspace[];
+  documents: Document[];
+  notebooks: Notebook[];
+  services: ContainerService[];
+  analyses: TopologyAnalysis[];
+  events: DeploymentEvent[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY).toISOString();
+}
+
+function fixtureId(prefix: string, n: number): string {
+  return `00000000-0000-4000-${prefix.padStart(4, '0')}-${String(n).padStart(12, '0')}`;
+}
+
+export function checksum(content: string): string {
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    hash = (hash * 31 + content.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const README = `# Payments Platform
+
+Services for card processing and payouts.
+
+\`\`\`bash
+mix deps.get && mix ecto.setup
+\`\`\`
+
+\`\`\`bash
+docker compose up -d postgres redis
+\`\`\`
+`;
+
+const RUNBOOK = `# Incident runbook
+
+1. Check the status page
+2. Page the on-call engineer
+3. Capture logs with \`kubectl logs\`
+`;
+
+const ONBOARDING = `# Onboarding
+
+Welcome to the data team. Start with the notebooks in this workspace.
+`;
+
+export function createFixtures(): MockDatabase {
+  const user: User = {
+    id: fixtureId('1', 1),
+    name: 'Ada Example',
+    email: 'ada@example.com',
+    created_at: daysAgo(120),
+    updated_at: daysAgo(3),
+    confirmed_at: daysAgo(119),
+    settings: {
+      theme: 'system',
+      language: 'en',
+      timezone: 'UTC',
+      notifications_enabled: true,
+      email_notifications: false
+    }
+  };
+
+  const teammate: User = {
+    id: fixtureId('1', 2),
+    name: 'Grace Sample',
+    email: 'grace@example.com',
+    created_at: daysAgo(90),
+    updated_at: daysAgo(10),
+    confirmed_at: daysAgo(90)
+  };
+
+  const teams: Team[] = [
+    {
+      id: fixtureId('2', 1),
+      name: 'Platform Engineering',
+      description: 'Core services and infrastructure',
+      domain: 'platform',
+      is_personal: false,
+      created_at: daysAgo(100),
+      updated_at: daysAgo(2),
+      members_count: 2,
+      workspaces_count: 1
+    },
+    {
+      id: fixtureId('2', 2),
+      name: 'Data Science',
+      description: 'Analytics notebooks and experiments',
+      domain: 'data',
+      is_personal: false,
+      created_at: daysAgo(60),
+      updated_at: daysAgo(5),
+      members_count: 1,
+      workspaces_count: 1
+    }
+  ];
+  const [platform, data] = teams;
+
+  const memberships: UserTeam[] = [
+    { id: fixtureId('3', 1), user_id: user.id, team_id: platform.id, role: 'owner', status: 'active', joined_at: daysAgo(100), user },
+    { id: fixtureId('3', 2), user_id: teammate.id, team_id: platform.id, role: 'member', status: 'active', joined_at: daysAgo(80), user: teammate },
+    { id: fixtureId('3', 3), user_id: user.id, team_id: data.id, role: 'admin', status: 'active', joined_at: daysAgo(60), user }
+  ];
+
+  const invitations: TeamInvitation[] = [
+    {
+      id: fixtureId('4', 1),
+      email: 'new.hire@example.com',
+      role: 'member',
+      status: 'pending',
+      invited_by_id: user.id,
+      team_id: platform.id,
+      token: 'mock-invitation-token',
+      expires_at: new Date(Date.now() + 7 * DAY).toISOString(),
+      created_at: daysAgo(1)
+    }
+  ];
+
+  const workspaces: Workspace[] = [
+    {
+      id: fixtureId('5', 1),
+      name: 'payments',
+      description: 'Payments platform monorepo',
+      status: 'active',
+      storage_backend: 'git',
+      storage_path: '/workspaces/payments',
+      git_repository_url: 'https://example.com/platform/payments.git',
+      git_branch: 'main',
+      team_id: platform.id,
+      created_by_id: user.id,
+      created_at: daysAgo(95),
+      updated_at: daysAgo(1),
+      documents_count: 2,
+      notebooks_count: 1,
+      size_bytes: 48_213
+    },
+    {
+      id: fixtureId('5', 2),
+      name: 'analytics',
+      description: 'Weekly reporting and experiments',
+      status: 'active',
+      storage_backend: 'local',
+      storage_path: '/workspaces/analytics',
+      team_id: data.id,
+      created_by_id: user.id,
+      created_at: daysAgo(55),
+      updated_at: daysAgo(4),
+      documents_count: 1,
+      notebooks_count: 0,
+      size_bytes: 3_912
+    }
+  ];
+  const [payments, analytics] = workspaces;
+
+  const document = (n: number, workspace: Workspace, title: string, content: string, tags: string[], age: number): Document => ({
+    id: fixtureId('6', n),
+    title,
+    content,
+    content_type: 'markdown',
+    is_public: false,
+    tags,
+    metadata: {},
+    file_path: `/${title.toLowerCase().replace(/\s+/g, '-')}.md`,
+    file_size_bytes: content.length,
+    checksum: checksum(content),
+    version: 1,
+    workspace_id: workspace.id,
+    team_id: workspace.team_id,
+    created_by_id: user.id,
+    created_at: daysAgo(age),
+    updated_at: daysAgo(Math.max(0, age - 3))
+  });
+
+  const documents: Document[] = [
+    document(1, payments, 'README', README, ['setup'], 90),
+    document(2, payments, 'Incident Runbook', RUNBOOK, ['ops', 'on-call'], 40),
+    document(3, analytics, 'Onboarding', ONBOARDING, ['docs'], 50)
+  ];
+
+  const tasks: NotebookTask[] = [
+    {
+      id: fixtureId('8', 1),
+      notebook_id: fixtureId('7', 1),
+      name: 'Install dependencies',
+      language: 'bash',
+      code: 'mix deps.get && mix ecto.setup',
+      order_index: 0,
+      is_executable: true,
+      execution_count: 3,
+      last_execution_status: 'success',
+      last_execution_at: daysAgo(2),
+      last_execution_time_ms: 8_420,
+      last_output: '* Getting phoenix (Hex package)\nThe database for Payments.Repo has been created',
+      created_at: daysAgo(90),
+      updated_at: daysAgo(2)
+    },
+    {
+      id: fixtureId('8', 2),
+      notebook_id: fixtureId('7', 1),
+      name: 'Start backing services',
+      language: 'bash',
+      code: 'docker compose up -d postgres redis',
+      order_index: 1,
+      is_executable: true,
+      execution_count: 1,
+      last_execution_status: 'error',
+      last_execution_at: daysAgo(2),
+      last_error: 'Error response from daemon: port is already allocated',
+      created_at: daysAgo(90),
+      updated_at: daysAgo(2)
+    }
+  ];
+
+  const notebooks: Notebook[] = [
+    {
+      id: fixtureId('7', 1),
+      title: 'README',
+      content: README,
+      status: 'idle',
+      language: 'bash',
+      collaborative_mode: true,
+      auto_save_enabled: true,
+      execution_timeout_seconds: 300,
+      task_count: tasks.length,
+      completed_task_count: 1,
+      last_execution_at: daysAgo(2),
+      workspace_id: payments.id,
+      document_id: documents[0].id,
+      team_id: platform.id,
+      created_by_id: user.id,
+      created_at: daysAgo(90),
+      updated_at: daysAgo(2),
+      tasks
+    }
+  ];
+
+  const service = (n: number, name: string, type: string, status: ContainerService['status'], port?: number): ContainerService => ({
+    id: fixtureId('9', n),
+    name,
+    folder_path: `/${name}`,
+    service_type: type,
+    detection_confidence: 0.9,
+    status,
+    container_id: status === 'running' ? `c0ffee${n}d00d` : undefined,
+    image_id: `sha256:${checksum(name)}`,
+    deployment_config: { build_context: `/${name}`, dockerfile_path: 'Dockerfile' },
+    port_mappings: port ? { [String(port)]: { host_port: port, protocol: 'tcp' } } : {},
+    environment_variables: { MIX_ENV: 'prod' },
+    volume_mounts: {},
+    resource_limits: { memory_mb: 512, cpu_cores: 0.5 },
+    scaling_config: { min_replicas: 1, max_replicas: 3, auto_scaling_enabled: false },
+    health_check_config: { enabled: true, type: 'http', endpoint: '/health', interval_seconds: 30, timeout_seconds: 5, retries: 3 },
+    labels: { team: 'platform' },
+    network_config: {},
+    workspace_id: payments.id,
+    team_id: platform.id,
+    created_by_id: user.id,
+    created_at: daysAgo(30),
+    updated_at: daysAgo(1),
+    deployed_at: status === 'running' ? daysAgo(1) : undefined
+  });
+
+  const services: ContainerService[] = [
+    service(1, 'api', 'web_app', 'running', 4000),
+    service(2, 'worker', 'background_job', 'stopped'),
+    service(3, 'postgres', 'database', 'running', 5432)
+  ];
+
+  const analyses: TopologyAnalysis[] = [
+    {
+      id: fixtureId('10', 1),
+      folder_path: '/',
+      detection_timestamp: daysAgo(30),
+      detected_patterns: {
+        languages: ['elixir', 'javascript'],
+        frameworks: ['phoenix'],
+        databases: ['postgres', 'redis'],
+        services: ['api', 'worker'],
+        deployment_files: ['Dockerfile', 'docker-compose.yml'],
+        config_files: ['config/runtime.exs']
+      },
+      service_graph: {
+        nodes: services.map(s => ({ id: s.id, name: s.name, type: s.service_type, dependencies: [], file_path: s.folder_path, confidence: 0.9 })),
+        edges: [{ from: services[0].id, to: services[2].id, type: 'depends_on' }],
+        clusters: []
+      },
+      recommended_services: [],
+      confidence_scores: { api: 0.95, worker: 0.8, postgres: 0.99 },
+      file_indicators: [
+        { file_path: '/Dockerfile', file_type: 'dockerfile', indicators: ['FROM elixir'], confidence: 0.95, metadata: {} }
+      ],
+      deployment_strategy: 'docker_compose',
+      total_services_detected: services.length,
+      analysis_metadata: {},
+      workspace_id: payments.id,
+      team_id: platform.id,
+      created_at: daysAgo(30),
+      updated_at: daysAgo(30)
+    }
+  ];
+
+  const event = (n: number, serviceId: string, type: DeploymentEvent['event_type'], age: number, extra: Partial<DeploymentEvent> = {}): DeploymentEvent => ({
+    id: fixtureId('11', n),
+    event_type: type,
+    event_data: {},
+    error_details: {},
+    sequence_number: n,
+    occurred_at: daysAgo(age),
+    service_instance_id: serviceId,
+    team_id: platform.id,
+    triggered_by_id: user.id,
+    ...extra
+  });
+
+  const events: DeploymentEvent[] = [
+    event(1, services[0].id, 'deployment_started', 1.01),
+    event(2, services[0].id, 'container_started', 1.005, { duration_ms: 4_200 }),
+    event(3, services[0].id, 'deployment_completed', 1, { duration_ms: 12_800 }),
+    event(4, services[1].id, 'deployment_failed', 2, { error_message: 'Build failed: mix compile exited with 1' })
+  ];
+
+  return {
+    currentUserId: user.id,
+    users: [user, teammate],
+    teams,
+    memberships,
+    invitations,
+    workspaces,
+    documents,
+    notebooks,
+    services,
+    analyses,
+    events
+  };
+}
@@ -0,0 +1,854 @@
+// In-memory implementation of the /api/v1 surface for local development and component tests.
+// It answers with the same envelopes and error shapes as the Phoenix controllers, so the
+// HttpClient, ApiService and the apps' own fetch wrappers run against it unchanged.
+import { createFixtures, checksum, type MockDatabase } from './fixtures';
+import { setTransport, type Transport } from '../client';
+import type { BatchRequest, BatchResponse } from '../../../types/api';
+import type { Notebook } from '../../../types';
+import type { DeploymentEventType, ServiceStatus } from '../../../types/containers';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: any;
+}
+
+interface RouteContext extends MockRequest {
+  params: Record<string, string>;
+  db: MockDatabase;
+}
+
+interface MockResult {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+type Handler = (ctx: RouteContext) => MockResult | Promise<MockResult>;
+
+// MockDatabase keys that hold records with ids
+type MockTable = { [K in keyof MockDatabase]: MockDatabase[K] extends { id: string }[] ? K : never }[keyof MockDatabase];
+
+declare global {
+  interface Window {
+    // Set by installMockApi(), for poking at the data from the console
+    mockApi?: MockApi;
+  }
+}
+
+export type Latency = number | { min: number; max: number };
+
+export interface MockFailure {
+  // Path prefix, regex, or predicate; omitted matches every request
+  match?: string | RegExp | ((request: MockRequest) => boolean);
+  method?: string;
+  // Reject like a dropped connection instead of answering
+  network?: boolean;
+  status?: number;
+  body?: any;
+  // Number of matching requests to fail; omitted fails until removed
+  times?: number;
+}
+
+export interface MockApiOptions {
+  baseUrl?: string;
+  latency?: Latency;
+  // Probability (0..1) that any request fails with a 503
+  failureRate?: number;
+  seed?: () => MockDatabase;
+}
+
+let nextId = 1;
+
+function mockId(): string {
+  const suffix = (nextId++).toString(16).padStart(12, '0');
+  return `00000000-0000-4000-9000-${suffix}`;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+const ok = (data: any, status = 200, extra: Record<string, any> = {}): MockResult => ({ status, body: { data, ...extra } });
+const noContent = (): MockResult => ({ status: 204 });
+const notFound = (what = 'Resource'): MockResult => ({ status: 404, body: { errors: { detail: `${what} not found` } } });
+const invalid = (errors: Record<string, string[]>): MockResult => ({ status: 422, body: { errors } });
+
+// Bracket-notation form fields (`file[filename]`) become nested objects, as Plug decodes them
+function formToObject(form: FormData): Record<string, any> {
+  const result: Record<string, any> = {};
+  form.forEach((value, key) => {
+    const parts = key.replace(/\]/g, '').split('[');
+    let target = result;
+    parts.slice(0, -1).forEach(part => {
+      target = target[part] ??= {};
+    });
+    target[parts[parts.length - 1]] = value;
+  });
+  return result;
+}
+
+// page/per_page slicing with the PaginationMeta the list views understand
+function list<T>(items: T[], query: URLSearchParams): MockResult {
+  const page = Number(query.get('page') || 0);
+  const perPage = Number(query.get('per_page') || 0);
+  if (!page || !perPage) return ok(items);
+
+  const start = (page - 1) * perPage;
+  return ok(items.slice(start, start + perPage), 200, {
+    meta: {
+      current_page: page,
+      per_page: perPage,
+      total_entries: items.length,
+      total_pages: Math.max(1, Math.ceil(items.length / perPage))
+    }
+  });
+}
+
+function matchesSearch(query: URLSearchParams, ...fields: (string | undefined)[]): boolean {
+  const search = query.get('search')?.toLowerCase();
+  return !search || fields.some(field => field?.toLowerCase().includes(search));
+}
+
+export class MockApi {
+  db: MockDatabase;
+  private routes: { method: string; pattern: RegExp; keys: string[]; handler: Handler }[] = [];
+  private failures: MockFailure[] = [];
+  private options: Required<Omit<MockApiOptions, 'seed'>> & Pick<MockApiOptions, 'seed'>;
+
+  constructor(options: MockApiOptions = {}) {
+    this.options = { baseUrl: '/api/v1', latency: { min: 80, max: 250 }, failureRate: 0, ...options };
+    this.db = (options.seed ?? createFixtures)();
+    this.registerRoutes();
+  }
+
+  /**
+   * Restore the seed data and drop scripted failures
+   */
+  reset() {
+    this.db = (this.options.seed ?? createFixtures)();
+    this.failures = [];
+  }
+
+  setLatency(latency: Latency) {
+    this.options.latency = latency;
+  }
+
+  setFailureRate(rate: number) {
+    this.options.failureRate = rate;
+  }
+
+  /**
+   * Script a failure for matching requests; returns a function removing it
+   */
+  fail(failure: MockFailure): () => void {
+    const entry = { ...failure };
+    this.failures.push(entry);
+    return () => {
+      this.failures = this.failures.filter(item => item !== entry);
+    };
+  }
+
+  /**
+   * Fetch-compatible transport; URLs outside the API base are rejected
+   */
+  transport: Transport = async (input, init = {}) => {
+    const url = new URL(input, 'http://mock.local');
+    const path = url.pathname.startsWith(this.options.baseUrl)
+      ? url.pathname.slice(this.options.baseUrl.length) || '/'
+      : url.pathname;
+    const request: MockRequest = {
+      method: (init.method || 'GET').toUpperCase(),
+      path,
+      query: url.searchParams,
+      headers: new Headers(init.headers),
+      body: this.parseBody(init.body)
+    };
+    request.path = this.canonicalPath(request);
+
+    await this.delay(init.signal);
+
+    const failure = this.takeFailure(request);
+    if (failure?.network) throw new TypeError('Failed to fetch');
+    if (failure) {
+      return this.respond({ status: failure.status ?? 500, body: failure.body ?? { errors: { detail: 'Injected failure' } } });
+    }
+    if (this.options.failureRate > 0 && Math.random() < this.options.failureRate) {
+      return this.respond({ status: 503, body: { errors: { detail: 'Service unavailable (mock)' } }, headers: { 'retry-after': '1' } });
+    }
+
+    return this.respond(await this.dispatch(request));
+  };
+
+  /**
+   * Route a request without latency or failures (used by the batch endpoint and tests)
+   */
+  async dispatch(request: MockRequest): Promise<MockResult> {
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const match = route.pattern.exec(request.path);
+      if (!match) continue;
+
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+      if (params.team_id && !this.db.teams.some(team => team.id === params.team_id)) {
+        return notFound('Team');
+      }
+      try {
+        return await route.handler({ ...request, params, db: this.db });
+      } catch (error) {
+        console.error('[mock api] handler failed:', error);
+        return { status: 500, body: { errors: { detail: 'Internal server error' } } };
+      }
+    }
+    return notFound('Route');
+  }
+
+  private on(method: string, path: string, handler: Handler) {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      '^' + path.replace(/:(\w+)/g, (_, key) => {
+        keys.push(key);
+        return '([^/]+)';
+      }) + '/?$'
+    );
+    this.routes.push({ method, pattern, keys, handler });
+  }
+
+  // WorkspacesApp and NotebooksApp still call the pre-files routes, and NotebooksApp sends the
+  // team in an X-Team-ID header instead of the path
+  private canonicalPath({ path, headers }: MockRequest): string {
+    if (!path.startsWith('/teams/') && /^\/(notebooks|documents|workspaces)(\/|$)/.test(path)) {
+      const teamId = headers.get('x-team-id') || this.db.memberships.find(m => m.user_id === this.db.currentUserId)?.team_id;
+      path = `/teams/${teamId}${path}`;
+    }
+    return path
+      .replace(/\/documents(?=\/|$)/, '/files')
+      .replace(/\/stop_execution$/, '/stop')
+      .replace(/\/reset_execution$/, '/reset')
+      .replace(/\/toggle_collaborative_mode$/, '/collaborate')
+      .replace(/\/notebooks\/([^/]+)\/tasks\/([^/]+)\/execute$/, '/notebooks/$1/execute/$2');
+  }
+
+  private parseBody(body: BodyInit | null | undefined): any {
+    if (body == null) return undefined;
+    if (typeof FormData !== 'undefined' && body instanceof FormData) return formToObject(body);
+    if (typeof body === 'string') {
+      try {
+        return JSON.parse(body);
+      } catch {
+        return body;
+      }
+    }
+    return body;
+  }
+
+  private delay(signal?: AbortSignal | null): Promise<void> {
+    const { latency } = this.options;
+    const ms = typeof latency === 'number' ? latency : latency.min + Math.random() * (latency.max - latency.min);
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  private takeFailure(request: MockRequest): MockFailure | undefined {
+    const failure = this.failures.find(item => {
+      if (item.method && item.method.toUpperCase() !== request.method) return false;
+      if (!item.match) return true;
+      if (typeof item.match === 'string') return request.path.startsWith(item.match);
+      if (item.match instanceof RegExp) return item.match.test(request.path);
+      return item.match(request);
+    });
+    if (failure?.times !== undefined && --failure.times <= 0) {
+      this.failures = this.failures.filter(item => item !== failure);
+    }
+    return failure;
+  }
+
+  private respond({ status, body, headers = {} }: MockResult): Response {
+    if (body === undefined || status === 204) return new Response(null, { status, headers });
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json', ...headers }
+    });
+  }
+
+  private registerRoutes() {
+    const team = '/teams/:team_id';
+    const user = () => this.db.users.find(u => u.id === this.db.currentUserId)!;
+    const teamsOfUser = () => {
+      const ids = new Set(this.db.memberships.filter(m => m.user_id === this.db.currentUserId).map(m => m.team_id));
+      return this.db.teams.filter(t => ids.has(t.id));
+    };
+    const find = <T extends { id: string; team_id?: string }>(items: T[], id: string, teamId?: string) =>
+      items.find(item => item.id === id && (!teamId || item.team_id === teamId));
+    const replace = <T extends { id: string }>(items: T[], updated: T) => {
+      const index = items.findIndex(item => item.id === updated.id);
+      if (index >= 0) items[index] = updated;
+      return updated;
+    };
+    const remove = (key: MockTable, id: string) => {
+      const items: { id: string }[] = this.db[key];
+      const index = items.findIndex(item => item.id === id);
+      if (index >= 0) items.splice(index, 1);
+    };
+
+    // Batch: run every operation through the router
+    this.on('POST', '/batch', async ({ body }) => {
+      const { operations = [] } = (body ?? {}) as BatchRequest;
+      const results: BatchResponse['results'] = [];
+      for (const operation of operations) {
+        const [path, search = ''] = operation.endpoint.split('?');
+        const result = await this.dispatch({
+          method: operation.method,
+          path,
+          query: new URLSearchParams(search),
+          headers: new Headers(),
+          body: operation.data
+        });
+        results.push({ id: operation.id, status: result.status, data: result.body });
+      }
+      return { status: 200, body: { results } };
+    });
+
+    // Profile and billing
+    this.on('GET', '/profile', () => ok(user()));
+    this.on('PATCH', '/profile', ({ body }) => ok(replace(this.db.users, { ...user(), ...body?.user, updated_at: now() })));
+    this.on('GET', '/billing/subscription', () => ok({ tier: 'pro', status: 'active', renews_at: new Date(Date.now() + 20 * 86_400_000).toISOString() }));
+
+    // Teams
+    this.on('GET', '/teams', ({ query }) => list(teamsOfUser().filter(t => matchesSearch(query, t.name, t.description)), query));
+    this.on('GET', '/teams/:id', ({ params }) => {
+      const found = teamsOfUser().find(t => t.id === params.id);
+      return found ? ok(found) : notFound('Team');
+    });
+    this.on('POST', '/teams', ({ body }) => {
+      const attrs = body?.team ?? {};
+      if (!attrs.name) return invalid({ name: ["can't be blank"] });
+      const created = { id: mockId(), is_personal: false, members_count: 1, workspaces_count: 0, created_at: now(), updated_at: now(), ...attrs };
+      this.db.teams.push(created);
+      this.db.memberships.push({ id: mockId(), user_id: this.db.currentUserId, team_id: created.id, role: 'owner', status: 'active', joined_at: now() });
+      return ok(created, 201);
+    });
+    this.on('PATCH', '/teams/:id', ({ params, body }) => {
+      const found = find(this.db.teams, params.id);
+      return found ? ok(replace(this.db.teams, { ...found, ...body?.team, updated_at: now() })) : notFound('Team');
+    });
+    this.on('DELETE', '/teams/:id', ({ params }) => {
+      remove('teams', params.id);
+      return noContent();
+    });
+    this.on('GET', `${team}/members`, ({ params }) => ok(this.db.memberships.filter(m => m.team_id === params.team_id)));
+    this.on('POST', `${team}/members`, ({ params, body }) => {
+      const attrs = body?.invitation ?? body ?? {};
+      if (!attrs.email) return invalid({ email: ["can't be blank"] });
+      const invitation = {
+        id: mockId(),
+        email: attrs.email,
+        role: attrs.role ?? 'member',
+        status: 'pending' as const,
+        invited_by_id: this.db.currentUserId,
+        team_id: params.team_id,
+        token: mockId(),
+        expires_at: new Date(Date.now() + 7 * 86_400_000).toISOString(),
+        created_at: now()
+      };
+      this.db.invitations.push(invitation);
+      return ok(invitation, 201);
+    });
+    this.on('DELETE', `${team}/members/:member_id`, ({ params }) => {
+      remove('memberships', params.member_id);
+      return noContent();
+    });
+    this.on('PATCH', `${team}/members/:member_id/role`, ({ params, body }) => {
+      const member = find(this.db.memberships, params.member_id, params.team_id);
+      return member ? ok(replace(this.db.memberships, { ...member, role: body?.role ?? member.role })) : notFound('Member');
+    });
+    this.on('GET', `${team}/invitations`, ({ params }) => ok(this.db.invitations.filter(i => i.team_id === params.team_id)));
+    for (const [action, status] of [['accept', 'accepted'], ['decline', 'declined']] as const) {
+      this.on('POST', `${team}/invitations/:invitation_id/${action}`, ({ params }) => {
+        const invitation = find(this.db.invitations, params.invitation_id, params.team_id);
+        return invitation ? ok(replace(this.db.invitations, { ...invitation, status })) : notFound('Invitation');
+      });
+    }
+    this.on('DELETE', `${team}/invitations/:invitation_id`, ({ params }) => {
+      remove('invitations', params.invitation_id);
+      return noContent();
+    });
+
+    // Workspaces
+    this.on('GET', `${team}/workspaces`, ({ params, query }) => list(
+      this.db.workspaces.filter(w =>
+        w.team_id === params.team_id &&
+        (!query.get('status') || w.status === query.get('status')) &&
+        matchesSearch(query, w.name, w.description)
+      ),
+      query
+    ));
+    this.on('GET', `${team}/workspaces/:id`, ({ params }) => {
+      const found = find(this.db.workspaces, params.id, params.team_id);
+      return found ? ok(found) : notFound('Workspace');
+    });
+    this.on('POST', `${team}/workspaces`, ({ params, body }) => {
+      const attrs = body?.workspace ?? {};
+      if (!attrs.name) return invalid({ name: ["can't be blank"] });
+      const created = {
+        id: mockId(),
+        status: 'active' as const,
+        storage_backend: 'local' as const,
+        created_by_id: this.db.currentUserId,
+        created_at: now(),
+        updated_at: now(),
+        documents_count: 0,
+        notebooks_count: 0,
+        size_bytes: 0,
+        ...attrs,
+        team_id: params.team_id
+      };
+      this.db.workspaces.push(created);
+      return ok(created, 201);
+    });
+    this.on('PATCH', `${team}/workspaces/:id`, ({ params, body }) => {
+      const found = find(this.db.workspaces, params.id, params.team_id);
+      return found ? ok(replace(this.db.workspaces, { ...found, ...body?.workspace, updated_at: now() })) : notFound('Workspace');
+    });
+    this.on('DELETE', `${team}/workspaces/:id`, ({ params }) => {
+      remove('workspaces', params.id);
+      return noContent();
+    });
+    for (const [action, status] of [['archive', 'archived'], ['restore', 'active']] as const) {
+      this.on('POST', `${team}/workspaces/:id/${action}`, ({ params }) => {
+        const found = find(this.db.workspaces, params.id, params.team_id);
+        return found ? ok(replace(this.db.workspaces, { ...found, status, updated_at: now() })) : notFound('Workspace');
+      });
+    }
+    this.on('POST', `${team}/workspaces/:id/duplicate`, ({ params, body }) => {
+      const found = find(this.db.workspaces, params.id, params.team_id);
+      if (!found) return notFound('Workspace');
+      const copy = { ...found, id: mockId(), name: body?.options?.name ?? `${found.name} (copy)`, created_at: now(), updated_at: now() };
+      this.db.workspaces.push(copy);
+      return ok(copy, 201);
+    });
+    this.on('GET', `${team}/workspaces/:id/statistics`, ({ params }) => {
+      const documents = this.db.documents.filter(d => d.workspace_id === params.id);
+      const notebooks = this.db.notebooks.filter(n => n.workspace_id === params.id);
+      const tasks = notebooks.flatMap(n => n.tasks ?? []);
+      return ok({
+        total_documents: documents.length,
+        total_notebooks: notebooks.length,
+        total_tasks: tasks.length,
+        completed_tasks: tasks.filter(t => t.last_execution_status === 'success').length,
+        total_executions: tasks.reduce((sum, t) => sum + t.execution_count, 0),
+        successful_executions: tasks.filter(t => t.last_execution_status === 'success').reduce((sum, t) => sum + t.execution_count, 0),
+        storage_used_bytes: documents.reduce((sum, d) => sum + (d.file_size_bytes ?? 0), 0),
+        last_activity_at: now()
+      });
+    });
+    this.on('GET', `${team}/workspaces/:id/files`, ({ params, query }) =>
+      list(this.db.documents.filter(d => d.workspace_id === params.id && matchesSearch(query, d.title)), query));
+    this.on('GET', `${team}/workspaces/:id/notebooks`, ({ params, query }) =>
+      list(this.db.notebooks.filter(n => n.workspace_id === params.id && matchesSearch(query, n.title)), query));
+    this.on('GET', `${team}/workspaces/:workspace_id/tasks`, ({ params }) =>
+      ok(this.db.notebooks.filter(n => n.workspace_id === params.workspace_id).flatMap(n => n.tasks ?? [])));
+
+    // Files
+    const createDocument = (teamId: string, attrs: Record<string, any>) => {
+      const content = attrs.content ?? '';
+      const created = {
+        id: mockId(),
+        title: attrs.title ?? 'Untitled',
+        description: attrs.description,
+        content,
+        content_type: attrs.content_type ?? 'markdown',
+        is_public: attrs.is_public ?? false,
+        tags: attrs.tags ?? [],
+        metadata: {},
+        file_path: `/${(attrs.title ?? 'untitled').toLowerCase().replace(/\s+/g, '-')}.md`,
+        file_size_bytes: content.length,
+        checksum: checksum(content),
+        version: 1,
+        workspace_id: attrs.workspace_id,
+        team_id: teamId,
+        created_by_id: this.db.currentUserId,
+        created_at: now(),
+        updated_at: now()
+      };
+      this.db.documents.push(created);
+      return created;
+    };
+    const document = (ctx: RouteContext) => find(this.db.documents, ctx.params.id, ctx.params.team_id);
+
+    this.on('GET', `${team}/files`, ({ params, query }) => list(
+      this.db.documents.filter(d =>
+        d.team_id === params.team_id &&
+        (!query.get('workspace_id') || d.workspace_id === query.get('workspace_id')) &&
+        matchesSearch(query, d.title, d.description)
+      ),
+      query
+    ));
+    this.on('POST', `${team}/files`, ({ params, body }) => {
+      const attrs = body?.file ?? body?.document ?? {};
+      if (!attrs.title) return invalid({ title: ["can't be blank"] });
+      if (!attrs.workspace_id) return invalid({ workspace_id: ["can't be blank"] });
+      return ok(createDocument(params.team_id, attrs), 201);
+    });
+    this.on('POST', `${team}/workspaces/:workspace_id/files/upload`, ({ params, body }) => {
+      const file = body?.file;
+      if (!file?.filename || typeof file.content !== 'string') {
+        return invalid({ file_upload: ['Invalid file upload format'] });
+      }
+      return ok(createDocument(params.team_id, {
+        title: file.filename.replace(/\.[^.]+$/, ''),
+        content: file.content,
+        content_type: file.content_type,
+        workspace_id: params.workspace_id
+      }), 201);
+    });
+    this.on('GET', `${team}/files/:id`, ctx => {
+      const found = document(ctx);
+      return found ? ok(found) : notFound('File');
+    });
+    this.on('PATCH', `${team}/files/:id`, ctx => {
+      const found = document(ctx);
+      return found ? ok(replace(this.db.documents, { ...found, ...(ctx.body?.file ?? ctx.body?.document), updated_at: now() })) : notFound('File');
+    });
+    this.on('PUT', `${team}/files/:id`, ctx => {
+      const found = document(ctx);
+      return found ? ok(replace(this.db.documents, { ...found, ...(ctx.body?.file ?? ctx.body?.document), updated_at: now() })) : notFound('File');
+    });
+    this.on('DELETE', `${team}/files/:id`, ({ params }) => {
+      remove('documents', params.id);
+      return noContent();
+    });
+    this.on('GET', `${team}/files/:id/content`, ctx => {
+      const found = document(ctx);
+      return found ? ok({ content: found.content ?? '', content_type: found.content_type }) : notFound('File');
+    });
+    this.on('PATCH', `${team}/files/:id/content`, ctx => {
+      const found = document(ctx);
+      if (!found) return notFound('File');
+      const content = String(ctx.body?.content ?? '');
+      return ok(replace(this.db.documents, {
+        ...found,
+        content,
+        checksum: checksum(content),
+        file_size_bytes: content.length,
+        version: (found.version ?? 1) + 1,
+        updated_at: now()
+      }));
+    });
+    this.on('PATCH', `${team}/files/:id/rename`, ctx => {
+      const found = document(ctx);
+      if (!found) return notFound('File');
+      if (!ctx.body?.new_title) return invalid({ new_title: ["can't be blank"] });
+      return ok(replace(this.db.documents, { ...found, title: ctx.body.new_title, updated_at: now() }));
+    });
+    this.on('POST', `${team}/files/:id/duplicate`, ctx => {
+      const found = document(ctx);
+      if (!found) return notFound('File');
+      const options = ctx.body?.options ?? {};
+      return ok(createDocument(ctx.params.team_id, { ...found, ...options, title: options.title ?? `${found.title} (copy)` }), 201);
+    });
+    this.on('GET', `${team}/files/:id/versions`, ctx => {
+      const found = document(ctx);
+      if (!found) return notFound('File');
+      return ok([{
+        id: mockId(),
+        document_id: found.id,
+        version_number: found.version ?? 1,
+        title: found.title,
+        content: found.content,
+        created_by_id: found.created_by_id,
+        created_at: found.updated_at
+      }]);
+    });
+    this.on('POST', `${team}/files/:id/view`, ctx => {
+      const found = document(ctx);
+      return found ? ok(replace(this.db.documents, { ...found, accessed_at: now() })) : notFound('File');
+    });
+    this.on('POST', `${team}/files/:id/render`, ctx => {
+      const found = document(ctx);
+      return found ? ok({ content: found.content ?? '', format: ctx.body?.format ?? 'html' }) : notFound('File');
+    });
+
+    // Notebooks
+    const notebook = (ctx: RouteContext) => find(this.db.notebooks, ctx.params.id, ctx.params.team_id);
+    const setNotebook = (ctx: RouteContext, changes: Record<string, any>) => {
+      const found = notebook(ctx);
+      return found ? ok(replace(this.db.notebooks, { ...found, ...changes, updated_at: now() })) : notFound('Notebook');
+    };
+
+    this.on('GET', `${team}/notebooks`, ({ params, query }) => list(
+      this.db.notebooks.filter(n =>
+        n.team_id === params.team_id &&
+        (!query.get('workspace_id') || n.workspace_id === query.get('workspace_id')) &&
+        matchesSearch(query, n.title)
+      ),
+      query
+    ));
+    this.on('GET', `${team}/notebooks/:id`, ctx => {
+      const found = notebook(ctx);
+      return found ? ok(found) : notFound('Notebook');
+    });
+    this.on('PATCH', `${team}/notebooks/:id`, ctx => setNotebook(ctx, ctx.body?.notebook ?? {}));
+    this.on('DELETE', `${team}/notebooks/:id`, ({ params }) => {
+      remove('notebooks', params.id);
+      return noContent();
+    });
+    const createNotebook = (teamId: string, attrs: Record<string, any>) => {
+      const created: Notebook = {
+        title: 'Untitled',
+        workspace_id: '',
+        id: mockId(),
+        content: '',
+        status: 'idle' as const,
+        collaborative_mode: false,
+        auto_save_enabled: true,
+        task_count: 0,
+        completed_task_count: 0,
+        created_by_id: this.db.currentUserId,
+        created_at: now(),
+        updated_at: now(),
+        tasks: [],
+        ...attrs,
+        team_id: teamId
+      };
+      this.db.notebooks.push(created);
+      return created;
+    };
+    this.on('POST', `${team}/notebooks`, ({ params, body }) => {
+      const attrs = body?.notebook ?? {};
+      if (!attrs.title) return invalid({ title: ["can't be blank"] });
+      return ok(createNotebook(params.team_id, attrs), 201);
+    });
+    this.on('POST', `${team}/files/:file_id/notebooks`, ({ params, body }) => {
+      const source = find(this.db.documents, params.file_id, params.team_id);
+      if (!source) return notFound('File');
+      return ok(createNotebook(params.team_id, {
+        title: body?.notebook?.title || source.title,
+        content: source.content,
+        workspace_id: source.workspace_id,
+        document_id: source.id
+      }), 201);
+    });
+    this.on('POST', `${team}/notebooks/:id/duplicate`, ctx => {
+      const found = notebook(ctx);
+      if (!found) return notFound('Notebook');
+      const copy = { ...found, id: mockId(), title: ctx.body?.options?.title ?? `${found.title} (copy)`, created_at: now(), updated_at: now() };
+      this.db.notebooks.push(copy);
+      return ok(copy, 201);
+    });
+    this.on('POST', `${team}/notebooks/:id/execute`, ctx => {
+      const found = notebook(ctx);
+      if (!found) return notFound('Notebook');
+      // Finishes a moment later so running states are visible in the UI
+      setTimeout(() => {
+        const current = find(this.db.notebooks, found.id);
+        if (current?.status !== 'running') return;
+        const tasks = (current.tasks ?? []).map(task => ({
+          ...task,
+          execution_count: task.execution_count + 1,
+          last_execution_status: 'success' as const,
+          last_execution_at: now(),
+          last_output: `$ ${task.code}\nok`
+        }));
+        replace(this.db.notebooks, { ...current, status: 'completed', tasks, completed_task_count: tasks.length, last_execution_at: now() });
+      }, 1500);
+      return setNotebook(ctx, { status: 'running' });
+    });
+    this.on('POST', `${team}/notebooks/:id/execute/:task_id`, ctx => setNotebook(ctx, { status: 'running' }));
+    this.on('POST', `${team}/notebooks/:id/stop`, ctx => setNotebook(ctx, { status: 'cancelled' }));
+    this.on('POST', `${team}/notebooks/:id/reset`, ctx => setNotebook(ctx, { status: 'idle', completed_task_count: 0 }));
+    this.on('POST', `${team}/notebooks/:id/collaborate`, ctx => setNotebook(ctx, { collaborative_mode: !notebook(ctx)?.collaborative_mode }));
+    this.on('POST', `${team}/notebooks/:id/access`, ctx => setNotebook(ctx, { accessed_at: now() }));
+    this.on('GET', `${team}/notebooks/:id/tasks`, ctx => {
+      const found = notebook(ctx);
+      return found ? ok(found.tasks ?? []) : notFound('Notebook');
+    });
+
+    // Container services
+    const service = (ctx: RouteContext) => find(this.db.services, ctx.params.id, ctx.params.team_id);
+    const transition = (ctx: RouteContext, status: ServiceStatus, eventType: DeploymentEventType) => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      this.db.events.push({
+        id: mockId(),
+        event_type: eventType,
+        event_data: {},
+        error_details: {},
+        sequence_number: this.db.events.length + 1,
+        occurred_at: now(),
+        service_instance_id: found.id,
+        team_id: found.team_id,
+        triggered_by_id: this.db.currentUserId
+      });
+      return ok(replace(this.db.services, {
+        ...found,
+        status,
+        updated_at: now(),
+        deployed_at: status === 'running' ? now() : found.deployed_at,
+        stopped_at: status === 'stopped' ? now() : found.stopped_at
+      }));
+    };
+
+    this.on('GET', `${team}/services`, ({ params, query }) => list(
+      this.db.services.filter(s =>
+        s.team_id === params.team_id &&
+        (!query.get('workspace_id') || s.workspace_id === query.get('workspace_id')) &&
+        (!query.get('status') || s.status === query.get('status')) &&
+        matchesSearch(query, s.name)
+      ),
+      query
+    ));
+    this.on('GET', `${team}/workspaces/:id/services`, ({ params }) => ok(this.db.services.filter(s => s.workspace_id === params.id)));
+    const deploy: Handler = ({ params, body }) => {
+      const attrs = body?.service ?? {};
+      if (!attrs.name) return invalid({ name: ["can't be blank"] });
+      const created = {
+        id: mockId(),
+        folder_path: '/',
+        service_type: 'web_app',
+        status: 'deploying' as const,
+        deployment_config: {},
+        port_mappings: {},
+        environment_variables: {},
+        volume_mounts: {},
+        labels: {},
+        network_config: {},
+        created_at: now(),
+        updated_at: now(),
+        workspace_id: params.id,
+        ...attrs,
+        team_id: params.team_id
+      };
+      this.db.services.push(created);
+      return ok(created, 201);
+    };
+    this.on('POST', `${team}/services`, deploy);
+    this.on('POST', `${team}/workspaces/:id/services`, deploy);
+    this.on('GET', `${team}/services/:id`, ctx => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      return ok({ ...found, deployment_events: this.db.events.filter(e => e.service_instance_id === found.id) });
+    });
+    this.on('PATCH', `${team}/services/:id`, ctx => {
+      const found = service(ctx);
+      return found ? ok(replace(this.db.services, { ...found, ...ctx.body?.service, updated_at: now() })) : notFound('Service');
+    });
+    this.on('DELETE', `${team}/services/:id`, ({ params }) => {
+      remove('services', params.id);
+      return noContent();
+    });
+    this.on('POST', `${team}/services/:id/start`, ctx => transition(ctx, 'running', 'container_started'));
+    this.on('POST', `${team}/services/:id/stop`, ctx => transition(ctx, 'stopped', 'container_stopped'));
+    this.on('POST', `${team}/services/:id/restart`, ctx => transition(ctx, 'running', 'container_restarted'));
+    this.on('POST', `${team}/services/:id/scale`, ctx => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      const replicas = Number(ctx.body?.replica_count ?? ctx.body?.replicas ?? 1);
+      return ok(replace(this.db.services, {
+        ...found,
+        scaling_config: { min_replicas: 1, auto_scaling_enabled: false, ...found.scaling_config, max_replicas: replicas },
+        updated_at: now()
+      }));
+    });
+    this.on('GET', `${team}/services/:id/status`, ctx => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      return ok({
+        id: found.id,
+        name: found.name,
+        status: found.status,
+        container_id: found.container_id,
+        deployed_at: found.deployed_at,
+        uptime: found.status === 'running' ? '1d 2h' : undefined,
+        resource_usage: { cpu_percent: 12 + Math.random() * 20, memory_percent: 35, memory_usage_mb: 180 }
+      });
+    });
+    this.on('GET', `${team}/services/:id/logs`, ctx => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      const lines = Number(ctx.query.get('lines') || 20);
+      const logs = Array.from({ length: lines }, (_, i) =>
+        `${new Date(Date.now() - (lines - i) * 1000).toISOString()} [info] ${found.name}: handled request in ${(Math.random() * 40).toFixed(1)}ms`
+      ).join('\n');
+      return ok({ logs, timestamp: now() });
+    });
+    this.on('GET', `${team}/services/:id/metrics`, ctx => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      const running = found.status === 'running';
+      return ok({
+        service_id: found.id,
+        resource_utilization: {
+          cpu_percent: running ? 10 + Math.random() * 30 : 0,
+          memory_percent: running ? 30 + Math.random() * 20 : 0,
+          memory_usage_bytes: running ? 180 * 1024 * 1024 : 0,
+          network_rx_bytes: running ? Math.round(Math.random() * 1e6) : 0,
+          network_tx_bytes: running ? Math.round(Math.random() * 1e6) : 0,
+          disk_read_bytes: 0,
+          disk_write_bytes: 0
+        },
+        recent_metrics: [],
+        updated_at: now()
+      });
+    });
+    this.on('GET', `${team}/services/:id/health`, ctx => {
+      const found = service(ctx);
+      if (!found) return notFound('Service');
+      return ok({ service_id: found.id, overall_status: found.status === 'running' ? 'healthy' : 'unknown', last_health_check: now() });
+    });
+    this.on('POST', `${team}/workspaces/:workspace_id/analyze`, ({ params, body }) => {
+      const existing = this.db.analyses.find(a => a.workspace_id === params.workspace_id);
+      const analysis = {
+        ...(existing ?? this.db.analyses[0]),
+        id: mockId(),
+        folder_path: body?.folder_path ?? '/',
+        detection_timestamp: now(),
+        workspace_id: params.workspace_id,
+        team_id: params.team_id,
+        created_at: now(),
+        updated_at: now()
+      };
+      this.db.analyses.push(analysis);
+      return ok(analysis, 201);
+    });
+  }
+}
+
+let installed: MockApi | null = null;
+
+/**
+ * Route every API call to an in-memory backend: HttpClient/ApiService through the transport hook,
+ * and the apps' direct `fetch` calls to the API base by wrapping `window.fetch`.
+ *
+ *   const mock = installMockApi({ latency: 0 });
+ *   mock.fail({ match: '/teams', method: 'GET', status: 500, times: 1 });
+ */
+export function installMockApi(options: MockApiOptions = {}): MockApi {
+  if (installed) return installed;
+
+  const mock = new MockApi(options);
+  const baseUrl = options.baseUrl ?? '/api/v1';
+  setTransport(mock.transport);
+
+  if (typeof window !== 'undefined') {
+    const realFetch = window.fetch.bind(window);
+    window.fetch = (input, init) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      const { pathname } = new URL(url, window.location.origin);
+      return pathname.startsWith(baseUrl) ? mock.transport(url, init ?? {}) : realFetch(input, init);
+    };
+    window.mockApi = mock;
+  }
+
+  console.info('[mock api] serving', baseUrl, 'from memory');
+  installed = mock;
+  return mock;
+}
@@ -0,0 +1,413 @@
+// Durable queue for edits made while offline. Mutations are stored in IndexedDB, replayed in order
+// once the network is back, and held as conflicts when the server copy moved on in the meantime.
+import { writable, derived, type Readable } from 'svelte/store';
+import type { ApiResponse } from '../../types';
+import type { ApiService } from '../../services/api';
+import { ApiRequestError, AuthenticationError, NetworkError, TimeoutError } from '../../types/api';
+
+export type MutationKind = 'document.update' | 'document.content' | 'document.rename' | 'notebook.update';
+
+export type MutationStatus = 'pending' | 'conflict' | 'failed';
+
+// What the client last saw of the entity; any field present must still match before replaying
+export interface EntityVersion {
+  version?: number | null;
+  checksum?: string | null;
+  updated_at?: string | null;
+}
+
+export interface MutationInput {
+  kind: MutationKind;
+  entityId: string;
+  method: 'POST' | 'PUT' | 'PATCH';
+  path: string;
+  body: Record<string, any>;
+  // GET path of the entity, used for the conflict check
+  resourcePath: string;
+  base?: EntityVersion;
+  // Returned to the caller in place of the server response while the change is queued
+  optimistic: Record<string, any>;
+}
+
+export interface QueuedMutation extends Omit<MutationInput, 'optimistic'> {
+  id: string;
+  seq: number;
+  status: MutationStatus;
+  attempts: number;
+  createdAt: string;
+  error?: string;
+  // Server copy found when the conflict was detected
+  remote?: Record<string, any>;
+}
+
+export interface OfflineQueueState {
+  items: QueuedMutation[];
+  online: boolean;
+  replaying: boolean;
+}
+
+export type MutationTransport = Pick<ApiService, 'get' | 'post' | 'put' | 'patch'>;
+
+// Edits that only ever carry the latest value can be folded into the previous queued one
+const COALESCED: MutationKind[] = ['document.content', 'document.update', 'notebook.update'];
+
+// Server unreachable while the browser still reports online: no `online` event will come, so poll
+const RETRY_INTERVAL_MS = 15_000;
+
+const DB_NAME = 'kyozo-offline';
+const STORE = 'mutations';
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function isConnectivityError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+function mutationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * The version fields of an entity, as passed to `submit` for the conflict check
+ */
+export function versionOf(entity: Record<string, any> | null | undefined): EntityVersion {
+  return { version: entity?.version, checksum: entity?.checksum, updated_at: entity?.updated_at };
+}
+
+// Fields missing on either side are not compared
+function versionsDiffer(base: EntityVersion, current: EntityVersion): boolean {
+  return (['version', 'checksum', 'updated_at'] as const).some(
+    field => base[field] != null && current[field] != null && base[field] !== current[field]
+  );
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Thin IndexedDB wrapper; falls back to memory only when IndexedDB is unavailable (SSR, private mode)
+ */
+class MutationStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.db) return this.db;
+    if (typeof indexedDB === 'undefined') return (this.db = Promise.resolve(null));
+
+    this.db = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Offline queue unavailable, changes will not survive a reload:', request.error);
+        resolve(null);
+      };
+    });
+    return this.db;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+    return promisify(action(db.transaction(STORE, mode).objectStore(STORE)));
+  }
+
+  // null when there is no database, so the in-memory queue is kept as is
+  async all(): Promise<QueuedMutation[] | null> {
+    const items = await this.run('readonly', store => store.getAll());
+    return items ? (items as QueuedMutation[]).sort((a, b) => a.seq - b.seq) : null;
+  }
+
+  async put(mutation: QueuedMutation) {
+    await this.run('readwrite', store => store.put(mutation));
+  }
+
+  async delete(id: string) {
+    await this.run('readwrite', store => store.delete(id));
+  }
+
+  async clear() {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+export class OfflineQueue implements Readable<OfflineQueueState> {
+  private store = new MutationStore();
+  private items: QueuedMutation[] = [];
+  private seq = 0;
+  private replaying: Promise<void> | null = null;
+  private channel: BroadcastChannel | null = null;
+  private syncedListeners = new Set<(mutation: QueuedMutation, data: any) => void>();
+  private state = writable<OfflineQueueState>({ items: [], online: !isOffline(), replaying: false });
+  private started = false;
+  private transport: () => MutationTransport | null = () => null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  subscribe = this.state.subscribe;
+
+  /**
+   * Load persisted mutations and replay them whenever the browser comes back online
+   */
+  start(transport: () => MutationTransport | null) {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+    this.transport = transport;
+
+    const replay = () => {
+      const api = transport();
+      if (api) this.replay(api);
+    };
+
+    window.addEventListener('online', () => {
+      this.emit({ online: true });
+      replay();
+    });
+    window.addEventListener('offline', () => this.emit({ online: false }));
+
+    // Other tabs share the database; reload our view when they change it
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('kyozo-offline');
+      this.channel.onmessage = () => this.load();
+    }
+
+    this.load().then(() => {
+      if (!isOffline()) replay();
+    });
+  }
+
+  /**
+   * Send the mutation now, or queue it when offline, when the request cannot reach the server,
+   * or when earlier changes to the same entity are still waiting (so order is preserved). Conflicted
+   * and failed changes do not hold back new ones; they wait for the user.
+   */
+  async submit<T>(input: MutationInput, send: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+    const waiting = this.items.some(item => item.entityId === input.entityId && item.status === 'pending');
+    if (!isOffline() && !waiting) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+      }
+    }
+
+    await this.enqueue(input);
+    this.scheduleRetry();
+    return {
+      data: input.optimistic as T,
+      status: 202,
+      message: 'Saved offline; will sync when back online',
+      queued: true
+    };
+  }
+
+  async enqueue(input: MutationInput): Promise<QueuedMutation> {
+    const { optimistic: _optimistic, ...mutation } = input;
+    const latest = [...this.items].reverse().find(item => item.entityId === input.entityId);
+
+    let queued: QueuedMutation;
+    if (latest && latest.kind === input.kind && latest.status === 'pending' && COALESCED.includes(input.kind)) {
+      // Keep the original base version: the conflict check is against what the user started from
+      queued = { ...latest, body: this.mergeBody(latest.body, input.body) };
+      this.items = this.items.map(item => (item.id === latest.id ? queued : item));
+    } else {
+      queued = {
+        ...mutation,
+        id: mutationId(),
+        seq: ++this.seq,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString()
+      };
+      this.items = [...this.items, queued];
+    }
+
+    await this.store.put(queued);
+    this.changed();
+    return queued;
+  }
+
+  /**
+   * Send queued mutations in order. Stops at the first connectivity failure; a conflict or rejection
+   * holds back later changes to the same entity but not to others.
+   */
+  replay(api: MutationTransport): Promise<void> {
+    if (this.replaying) return this.replaying;
+
+    const run = async () => {
+      this.emit({ replaying: true });
+      try {
+        await this.load();
+        const blocked = new Set<string>();
+
+        for (const { id } of this.items) {
+          // Re-read: an earlier write may have rebased this mutation
+          const mutation = this.items.find(item => item.id === id);
+          if (!mutation) continue;
+          if (mutation.status !== 'pending' || blocked.has(mutation.entityId)) {
+            blocked.add(mutation.entityId);
+            continue;
+          }
+          const outcome = await this.send(api, mutation);
+          if (outcome === 'offline') break;
+          if (outcome !== 'synced') blocked.add(mutation.entityId);
+        }
+      } finally {
+        this.emit({ replaying: false });
+        this.scheduleRetry();
+      }
+    };
+
+    // Only one tab replays at a time
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const exclusive = locks ? locks.request('kyozo-offline-replay', run).then(() => undefined) : run();
+    const replaying = exclusive.finally(() => {
+      this.replaying = null;
+    });
+    this.replaying = replaying;
+    return replaying;
+  }
+
+  private async send(api: MutationTransport, mutation: QueuedMutation): Promise<'synced' | 'conflict' | 'failed' | 'offline'> {
+    try {
+      if (mutation.base) {
+        const current = (await api.get<Record<string, any>>(mutation.resourcePath, undefined, { retry: false })).data;
+        if (versionsDiffer(mutation.base, versionOf(current))) {
+          await this.update(mutation, { status: 'conflict', remote: current, error: 'Changed on the server while offline' });
+          return 'conflict';
+        }
+      }
+
+      const method = mutation.method.toLowerCase() as 'post' | 'put' | 'patch';
+      // The mutation id doubles as idempotency key, so a replay cut off mid-flight is not applied twice
+      const response = await api[method]<any>(mutation.path, mutation.body, { idempotencyKey: mutation.id });
+
+      await this.remove(mutation.id);
+      await this.rebase(mutation.entityId, response.data);
+      this.syncedListeners.forEach(listener => listener(mutation, response.data));
+      return 'synced';
+    } catch (error) {
+      if (isConnectivityError(error) || error instanceof AuthenticationError) {
+        await this.update(mutation, { attempts: mutation.attempts + 1 });
+        return 'offline';
+      }
+      if (error instanceof ApiRequestError && (error.status === 409 || error.status === 412)) {
+        await this.update(mutation, { status: 'conflict', error: error.message });
+        return 'conflict';
+      }
+      await this.update(mutation, {
+        status: 'failed',
+        attempts: mutation.attempts + 1,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 'failed';
+    }
+  }
+
+  /**
+   * Put a conflicted or failed mutation back in line, e.g. after the user chose to overwrite
+   */
+  async retry(id: string, api?: MutationTransport) {
+    const mutation = this.items.find(item => item.id === id);
+    if (!mutation) return;
+    // Retrying a conflict means "keep mine": compare against the server copy we already showed
+    const base = mutation.status === 'conflict' && mutation.remote ? versionOf(mutation.remote) : mutation.base;
+    await this.update(mutation, { status: 'pending', base, error: undefined, remote: undefined });
+    if (api) await this.replay(api);
+  }
+
+  async discard(id: string) {
+    await this.remove(id);
+  }
+
+  async clear() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.items = [];
+    await this.store.clear();
+    this.changed();
+  }
+
+  /**
+   * Called after each queued mutation reaches the server
+   */
+  onSynced(listener: (mutation: QueuedMutation, data: any) => void): () => void {
+    this.syncedListeners.add(listener);
+    return () => this.syncedListeners.delete(listener);
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer || isOffline() || !this.items.some(item => item.status === 'pending')) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      const api = this.transport();
+      if (api) this.replay(api);
+    }, RETRY_INTERVAL_MS);
+  }
+
+  private mergeBody(previous: Record<string, any>, next: Record<string, any>): Record<string, any> {
+    const merged: Record<string, any> = { ...previous };
+    for (const [key, value] of Object.entries(next)) {
+      const nested = value && typeof value === 'object' && !Array.isArray(value) &&
+        previous[key] && typeof previous[key] === 'object';
+      merged[key] = nested ? { ...previous[key], ...value } : value;
+    }
+    return merged;
+  }
+
+  // After our own write lands, later queued changes to the entity must expect the new version
+  private async rebase(entityId: string, data: Record<string, any> | null | undefined) {
+    const version = versionOf(data);
+    if (version.version == null && version.checksum == null && version.updated_at == null) return;
+
+    for (const item of this.items.filter(item => item.entityId === entityId && item.base)) {
+      await this.update(item, { base: version });
+    }
+  }
+
+  private async update(mutation: QueuedMutation, changes: Partial<QueuedMutation>) {
+    // Settled, discarded or cleared (e.g. on logout) while a request was in flight: do not bring it back
+    if (!this.items.some(item => item.id === mutation.id)) return;
+    const updated = { ...mutation, ...changes };
+    this.items = this.items.map(item => (item.id === mutation.id ? updated : item));
+    await this.store.put(updated);
+    this.changed();
+  }
+
+  private async remove(id: string) {
+    this.items = this.items.filter(item => item.id !== id);
+    await this.store.delete(id);
+    this.changed();
+  }
+
+  private async load() {
+    const stored = await this.store.all();
+    if (stored) this.items = stored;
+    this.seq = Math.max(this.seq, ...this.items.map(item => item.seq));
+    this.emit({});
+  }
+
+  private changed() {
+    this.emit({});
+    this.channel?.postMessage('changed');
+  }
+
+  private emit(changes: Partial<Omit<OfflineQueueState, 'items'>>) {
+    this.state.update(state => ({ ...state, ...changes, items: this.items }));
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
+
+// Number of local changes not yet on the server, for the top bar indicator
+export const pendingChanges = derived(offlineQueue, $queue => $queue.items.length);
@@ -0,0 +1,65 @@
+// Runtime used by the endpoint functions generated from the OpenAPI spec (lib/api/generated)
+import type { ApiRequestOptions, HttpMethod } from '../../types/api';
+import type { ApiClient } from './client';
+
+export interface OperationDescriptor {
+  operationId: string;
+  method: HttpMethod;
+  // Path template relative to /api/v1, e.g. "/teams/{team_id}/files/{id}"
+  path: string;
+  pathParams: readonly string[];
+  queryParams: readonly string[];
+}
+
+export interface OperationCall {
+  params?: Record<string, any>;
+  body?: any;
+  options?: ApiRequestOptions;
+}
+
+/**
+ * Fills `{name}` segments of a path template, failing loudly on a missing value
+ */
+export function buildPath(template: string, params: Record<string, any> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+function pick(params: Record<string, any>, names: readonly string[]): Record<string, any> | undefined {
+  const picked: Record<string, any> = {};
+  for (const name of names) {
+    if (params[name] !== undefined) picked[name] = params[name];
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * Sends one operation through the shared API client and returns the response body
+ */
+export async function callOperation<T>(
+  client: ApiClient,
+  operation: OperationDescriptor,
+  { params = {}, body, options = {} }: OperationCall = {}
+): Promise<T> {
+  const url = buildPath(operation.path, params);
+  const query = pick(params, operation.queryParams);
+  const config: ApiRequestOptions = query ? { ...options, params: { ...options.params, ...query } } : options;
+
+  switch (operation.method) {
+    case 'GET':
+      return (await client.get<T>(url, config)).data;
+    case 'POST':
+      return (await client.post<T>(url, body, config)).data;
+    case 'PUT':
+      return (await client.put<T>(url, body, config)).data;
+    case 'PATCH':
+      return (await client.patch<T>(url, body, config)).data;
+    case 'DELETE':
+      return (await client.delete<T>(url, config)).data;
+  }
+}
@@ -0,0 +1,127 @@
+// Walks paginated list endpoints page by page, whatever pagination style the route uses
+import type { ApiRequestOptions, PaginationMeta } from '../../types/api';
+
+export interface PageInfo {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  info: PageInfo;
+  // Params for the following page; null on the last one
+  next: Record<string, any> | null;
+}
+
+// Anything shaped like ApiResponse, PaginatedResponse or PaginatedApiResponse
+export interface PageResponse<T> {
+  data: T[];
+  meta?: Partial<PaginationMeta> & Record<string, any>;
+  links?: { next?: string } & Record<string, string | undefined>;
+  pagination?: Partial<PageInfo>;
+}
+
+export type PageFetcher<T> = (params: Record<string, any>, options: ApiRequestOptions) => Promise<PageResponse<T>>;
+
+export interface PaginateOptions {
+  params?: Record<string, any>;
+  perPage?: number;
+  // Request the next page while the current one is being consumed
+  prefetch?: boolean;
+  maxPages?: number;
+  // Query param the server expects for cursor tokens found in `meta`
+  cursorParam?: string;
+  signal?: AbortSignal;
+}
+
+// Query params encoded in a `links.next` URL
+function paramsFromLink(link: string): Record<string, string> {
+  const url = new URL(link, typeof window !== 'undefined' ? window.location.origin : 'http://localhost');
+  return Object.fromEntries(url.searchParams);
+}
+
+/**
+ * Normalizes the three pagination styles the API uses: `links.next`, cursor tokens in `meta`,
+ * and page numbers (`meta` as PaginationMeta or a `pagination` block). Responses without any
+ * pagination details are treated as a single page.
+ */
+export function toPage<T>(response: PageResponse<T>, params: Record<string, any>, cursorParam = 'cursor'): Page<T> {
+  const items = response.data ?? [];
+  const meta = response.meta ?? {};
+  const page = Number(meta.current_page ?? response.pagination?.page ?? params.page ?? 1);
+  const perPage = Number(meta.per_page ?? response.pagination?.per_page ?? params.per_page ?? items.length);
+  const total = Number(meta.total_entries ?? meta.total ?? response.pagination?.total ?? items.length);
+  const totalPages = Number(meta.total_pages ?? response.pagination?.total_pages ?? (perPage ? Math.ceil(total / perPage) : 1));
+  const info: PageInfo = { page, per_page: perPage, total, total_pages: totalPages };
+
+  let next: Record<string, any> | null = null;
+  const cursor = meta.next_cursor ?? meta.after;
+
+  if (response.links?.next) {
+    next = paramsFromLink(response.links.next);
+  } else if (cursor) {
+    next = { [cursorParam]: cursor };
+  } else if (meta.has_next !== undefined) {
+    next = meta.has_next ? { page: page + 1 } : null;
+  } else if (response.meta?.total_pages !== undefined || response.pagination?.total_pages !== undefined) {
+    next = page < totalPages ? { page: page + 1 } : null;
+  }
+
+  // Guard against servers that ignore paging params and return an empty page forever
+  if (items.length === 0) next = null;
+
+  return { items, info, next };
+}
+
+/**
+ * Yields whole pages; with `prefetch` the next request is already in flight while a page is consumed
+ */
+export async function* paginatePages<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<Page<T>> {
+  const { params = {}, perPage = 20, prefetch = true, maxPages = Infinity, cursorParam, signal } = options;
+  const request = (pageParams: Record<string, any>) => fetchPage({ ...pageParams }, { signal });
+
+  let current: Record<string, any> = { ...params, page: 1, per_page: perPage };
+  let pending: Promise<PageResponse<T>> | null = request(current);
+
+  for (let count = 1; pending; count++) {
+    const page = toPage(await pending, { page: count, ...current }, cursorParam);
+    const nextParams: Record<string, any> | null = page.next && count < maxPages
+      ? { ...params, per_page: perPage, ...page.next }
+      : null;
+
+    pending = null;
+    if (nextParams && prefetch) {
+      pending = request(nextParams);
+      // Observed when awaited; avoids an unhandled rejection if the consumer stops early
+      pending.catch(() => {});
+    }
+
+    yield page;
+
+    if (!nextParams) return;
+    pending ??= request(nextParams);
+    current = nextParams;
+  }
+}
+
+/**
+ * Yields every item across pages: `for await (const doc of paginate(params => api.listDocuments(id, params)))`
+ */
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<T> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    yield* page.items;
+  }
+}
+
+/**
+ * Collects every page into one array
+ */
+export async function fetchAllPages<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of paginate(fetchPage, options)) {
+    items.push(item);
+  }
+  return items;
+}
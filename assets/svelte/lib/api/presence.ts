@@ -0,0 +1,186 @@
+// Who is looking at a workspace, document or notebook: presence on the execution topic, with
+// activity status (active/idle/typing) and the page each user is on, plus follow-user navigation
+import { derived, get, writable, type Readable } from 'svelte/store';
+import { channels, type ChannelClient, type ChannelState } from './channels';
+import { executionPresence, joinExecution, type ActivityStatus, type ExecutionResource } from './execution-channel';
+import { goto } from '../utils';
+
+const FOLLOW_KEY = 'kyozo-follow';
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'scroll', 'focus'] as const;
+
+export interface PresenceUser {
+  id: string;
+  name: string;
+  status: ActivityStatus;
+  location: string | null;
+  online_at: string;
+  // Number of open tabs/sessions
+  sessions: number;
+  self: boolean;
+}
+
+export interface PresenceOptions {
+  // Current user, so they can be marked and left out of follow
+  selfId?: string | null;
+  client?: ChannelClient;
+  idleAfterMs?: number;
+  typingForMs?: number;
+}
+
+export interface PresenceRoom extends Readable<PresenceUser[]> {
+  // User id being followed, if any
+  following: Readable<string | null>;
+  // Call on each keystroke; falls back to active after a pause
+  typing(): void;
+  follow(userId: string): void;
+  unfollow(): void;
+  stop(): void;
+}
+
+// Across sessions of one user, the busiest status wins
+const STATUS_RANK: Record<ActivityStatus, number> = { idle: 0, active: 1, typing: 2 };
+
+function currentLocation(): string {
+  return typeof window !== 'undefined' ? window.location.pathname + window.location.search : '';
+}
+
+function loadFollow(): string | null {
+  try {
+    return sessionStorage.getItem(FOLLOW_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveFollow(userId: string | null) {
+  try {
+    if (userId) sessionStorage.setItem(FOLLOW_KEY, userId);
+    else sessionStorage.removeItem(FOLLOW_KEY);
+  } catch {
+    // Storage disabled; following just won't survive a reload
+  }
+}
+
+/**
+ * Join presence for a resource and report this tab's activity until `stop()`
+ */
+export function createPresence(resource: ExecutionResource, id: string, options: PresenceOptions = {}): PresenceRoom {
+  const { selfId = null, client = channels, idleAfterMs = 120_000, typingForMs = 3_000 } = options;
+  const handle = joinExecution(resource, id, client);
+  const following = writable<string | null>(loadFollow());
+
+  let status: ActivityStatus = 'active';
+  let reported: { status: ActivityStatus; location: string } | null = null;
+  let joined = false;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let typingTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function report() {
+    const location = currentLocation();
+    if (!joined || (reported?.status === status && reported.location === location)) return;
+    reported = { status, location };
+    handle.send('presence_status', { status, location });
+  }
+
+  function setStatus(next: ActivityStatus) {
+    status = next;
+    report();
+  }
+
+  function resetIdle() {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => setStatus('idle'), idleAfterMs);
+  }
+
+  function onActivity() {
+    resetIdle();
+    if (status === 'idle') setStatus('active');
+  }
+
+  function onVisibility() {
+    if (document.visibilityState === 'hidden') {
+      clearTimeout(idleTimer);
+      setStatus('idle');
+    } else {
+      onActivity();
+    }
+  }
+
+  // The server resets our meta on every (re)join
+  const unsubscribeState = handle.state.subscribe((state: ChannelState) => {
+    joined = state.status === 'joined';
+    if (joined) {
+      reported = null;
+      report();
+    }
+  });
+
+  if (typeof window !== 'undefined') {
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    window.addEventListener('navigate', report);
+    window.addEventListener('popstate', report);
+    document.addEventListener('visibilitychange', onVisibility);
+    resetIdle();
+  }
+
+  const users = derived(executionPresence(resource, id, client), entries =>
+    entries
+      .filter(entry => entry.metas.length > 0)
+      .map(({ key, metas }): PresenceUser => {
+        // Most recent session decides where the user is
+        const latest = metas[metas.length - 1];
+        const busiest = metas.reduce((a, b) => (STATUS_RANK[b.status ?? 'active'] > STATUS_RANK[a.status ?? 'active'] ? b : a));
+        return {
+          id: key,
+          name: latest.user?.name ?? 'Unknown',
+          status: busiest.status ?? 'active',
+          location: latest.location ?? null,
+          online_at: metas[0].online_at,
+          sessions: metas.length,
+          self: key === selfId
+        };
+      })
+      .sort((a, b) => Number(b.self) - Number(a.self) || a.name.localeCompare(b.name))
+  );
+
+  // Go wherever the followed user goes
+  const unsubscribeFollow = derived([users, following], ([$users, $following]) =>
+    $following ? ($users.find(user => user.id === $following)?.location ?? null) : null
+  ).subscribe(location => {
+    if (location && location !== currentLocation()) goto(location);
+  });
+
+  return {
+    subscribe: users.subscribe,
+    following: { subscribe: following.subscribe },
+    typing() {
+      onActivity();
+      clearTimeout(typingTimer);
+      typingTimer = setTimeout(() => setStatus('active'), typingForMs);
+      if (status !== 'typing') setStatus('typing');
+    },
+    follow(userId) {
+      if (userId === selfId) return;
+      saveFollow(userId);
+      following.set(userId);
+    },
+    unfollow() {
+      if (!get(following)) return;
+      saveFollow(null);
+      following.set(null);
+    },
+    stop() {
+      clearTimeout(idleTimer);
+      clearTimeout(typingTimer);
+      unsubscribeFollow();
+      unsubscribeState();
+      if (typeof window !== 'undefined') {
+        ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+        window.removeEventListener('navigate', report);
+        window.removeEventListener('popstate', report);
+        document.removeEventListener('visibilitychange', onVisibility);
+      }
+      handle.leave();
+    }
+  };
+}
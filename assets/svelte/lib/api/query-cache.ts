@@ -0,0 +1,189 @@
+// Stale-while-revalidate cache for GET requests, keyed by endpoint plus params
+
+export interface QueryCacheOptions {
+  // Data older than this is served but refetched in the background
+  staleTime?: number;
+}
+
+export interface CachedQuery<T> {
+  data: T;
+  updatedAt: number;
+  stale: boolean;
+}
+
+interface CacheEntry<T> {
+  data?: T;
+  hasData: boolean;
+  updatedAt: number;
+  invalidated: boolean;
+  promise?: Promise<T>;
+  fetcher?: () => Promise<T>;
+  listeners: Set<(data: T) => void>;
+}
+
+/**
+ * Stable cache key: the same params in any order produce the same key
+ */
+export function queryKey(endpoint: string, params?: Record<string, any>): string {
+  if (!params) return endpoint;
+
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return entries.length > 0 ? `${endpoint}?${JSON.stringify(entries)}` : endpoint;
+}
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry<any>>();
+  private staleTime: number;
+  private detach: (() => void) | null = null;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.staleTime = options.staleTime ?? 30_000;
+  }
+
+  private entry<T>(key: string): CacheEntry<T> {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { hasData: false, updatedAt: 0, invalidated: false, listeners: new Set() };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private isStale(entry: CacheEntry<any>): boolean {
+    return !entry.hasData || entry.invalidated || Date.now() - entry.updatedAt > this.staleTime;
+  }
+
+  /**
+   * Cached data for a key without triggering a request
+   */
+  peek<T>(key: string): CachedQuery<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry?.hasData) return undefined;
+    return { data: entry.data as T, updatedAt: entry.updatedAt, stale: this.isStale(entry) };
+  }
+
+  /**
+   * Resolve a query: fresh data comes from the cache, concurrent identical
+   * requests share one promise, and stale data triggers a refetch
+   */
+  fetch<T>(key: string, fetcher: () => Promise<T>, options: { force?: boolean } = {}): Promise<T> {
+    const entry = this.entry<T>(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise) return entry.promise;
+    if (!options.force && !this.isStale(entry)) return Promise.resolve(entry.data as T);
+
+    const promise = fetcher().then(
+      data => {
+        if (entry.promise === promise) entry.promise = undefined;
+        this.write(key, data);
+        return data;
+      },
+      error => {
+        if (entry.promise === promise) entry.promise = undefined;
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * Store data for a key (e.g. from a mutation response) and notify watchers
+   */
+  write<T>(key: string, data: T) {
+    const entry = this.entry<T>(key);
+    entry.data = data;
+    entry.hasData = true;
+    entry.updatedAt = Date.now();
+    entry.invalidated = false;
+    entry.listeners.forEach(listener => listener(data));
+  }
+
+  /**
+   * Be notified whenever the data for a key changes; watched keys are revalidated in the background
+   */
+  watch<T>(key: string, listener: (data: T) => void): () => void {
+    const entry = this.entry<T>(key);
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+  }
+
+  /**
+   * Mark matching keys stale (prefix or predicate) and refetch the watched ones
+   */
+  invalidate(match: string | ((key: string) => boolean)) {
+    const matches = typeof match === 'string' ? (key: string) => key.startsWith(match) : match;
+
+    this.entries.forEach((entry, key) => {
+      if (!matches(key)) return;
+      entry.invalidated = true;
+      if (entry.listeners.size > 0) this.revalidate(key);
+    });
+  }
+
+  /**
+   * Mark everything fetched before `time` stale and refetch the watched keys, e.g. data loaded
+   * before a disconnect; anything fetched since is left alone
+   */
+  invalidateBefore(time: number) {
+    this.entries.forEach((entry, key) => {
+      if (!entry.hasData || entry.updatedAt >= time) return;
+      entry.invalidated = true;
+      if (entry.listeners.size > 0) this.revalidate(key);
+    });
+  }
+
+  /**
+   * Refetch every watched key whose data is stale
+   */
+  revalidateStale() {
+    this.entries.forEach((entry, key) => {
+      if (entry.listeners.size > 0 && this.isStale(entry)) this.revalidate(key);
+    });
+  }
+
+  private revalidate(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry?.fetcher) return;
+    this.fetch(key, entry.fetcher, { force: true }).catch(error => {
+      console.warn(`Background revalidation failed for ${key}:`, error);
+    });
+  }
+
+  /**
+   * Revalidate stale watched queries when the tab regains focus or the network returns
+   */
+  startAutoRevalidate(target: Window = window) {
+    if (this.detach) return;
+
+    const onFocus = () => this.revalidateStale();
+    const onVisibility = () => {
+      if (target.document.visibilityState === 'visible') this.revalidateStale();
+    };
+
+    target.addEventListener('focus', onFocus);
+    target.addEventListener('online', onFocus);
+    target.document.addEventListener('visibilitychange', onVisibility);
+
+    this.detach = () => {
+      target.removeEventListener('focus', onFocus);
+      target.removeEventListener('online', onFocus);
+      target.document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }
+
+  stopAutoRevalidate() {
+    this.detach?.();
+    this.detach = null;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,170 @@
+// Query string encoding: nested params for Phoenix, and QueryOptions in the Ash JSON:API
+// `filter[...]` / `sort=` / `include=` syntax, with a round-trip through the browser URL
+import type { FilterOption, QueryOptions, SortOption } from '../../types/api';
+
+type Operator = FilterOption['operator'];
+
+// Client operator -> Ash filter predicate
+const OPERATORS: Record<Operator, string> = {
+  eq: 'eq',
+  ne: 'not_eq',
+  gt: 'greater_than',
+  gte: 'greater_than_or_equal',
+  lt: 'less_than',
+  lte: 'less_than_or_equal',
+  in: 'in',
+  nin: 'in',
+  contains: 'contains',
+  starts_with: 'starts_with',
+  ends_with: 'ends_with'
+};
+
+const PREDICATES = new Map(
+  Object.entries(OPERATORS)
+    .filter(([operator]) => operator !== 'nin')
+    .map(([operator, predicate]) => [predicate, operator as Operator])
+);
+
+function encodeValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Appends params using bracket notation (`a[b]=1`, `list[]=x`), which Plug decodes into maps and lists
+ */
+export function appendParams(searchParams: URLSearchParams, params: Record<string, any>, prefix?: string) {
+  for (const [key, value] of Object.entries(params)) {
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (value === undefined || value === null) continue;
+
+    if (Array.isArray(value)) {
+      value.forEach(item => {
+        if (item !== undefined && item !== null) searchParams.append(`${name}[]`, encodeValue(item));
+      });
+    } else if (typeof value === 'object' && !(value instanceof Date)) {
+      appendParams(searchParams, value, name);
+    } else {
+      searchParams.append(name, encodeValue(value));
+    }
+  }
+}
+
+/**
+ * Flat params for a QueryOptions, ready for `ApiRequestOptions.params`. Every filter key names its
+ * operator, so several operators on one field don't collide; `in` / `nin` values are sent one per
+ * entry (`filter[tag][in][]=a`), so values containing commas survive.
+ */
+export function serializeQuery(options: QueryOptions): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {};
+
+  for (const { field, operator, value } of options.filters ?? []) {
+    if (operator === 'in' || operator === 'nin') {
+      const key = operator === 'nin' ? `filter[not][${field}][in]` : `filter[${field}][in]`;
+      params[key] = (Array.isArray(value) ? value : [value]).map(encodeValue);
+    } else {
+      params[`filter[${field}][${OPERATORS[operator]}]`] = encodeValue(value);
+    }
+  }
+
+  if (options.sort?.length) {
+    params.sort = options.sort.map(s => (s.direction === 'desc' ? `-${s.field}` : s.field)).join(',');
+  }
+  if (options.include?.length) params.include = options.include.join(',');
+  if (options.search) params.search = options.search;
+  if (options.page !== undefined) params.page = String(options.page);
+  if (options.per_page !== undefined) params.per_page = String(options.per_page);
+
+  return params;
+}
+
+export function toQueryString(options: QueryOptions): string {
+  const searchParams = new URLSearchParams();
+  appendParams(searchParams, serializeQuery(options));
+  return searchParams.toString();
+}
+
+const FILTER_KEY = /^filter(?:\[not\])?\[([^\]]+)\](?:\[([^\]]+)\])?(\[\])?$/;
+
+/**
+ * Inverse of serializeQuery; values come back as strings (lists for `in` / `nin`). A bare
+ * `filter[field]` reads as `eq`, and an `in` list written as one comma-separated value is split.
+ */
+export function parseQuery(input: string | URLSearchParams): QueryOptions {
+  const searchParams = typeof input === 'string' ? new URLSearchParams(input) : input;
+  const options: QueryOptions = {};
+  const filters: FilterOption[] = [];
+
+  searchParams.forEach((value, key) => {
+    const match = FILTER_KEY.exec(key);
+    if (match) {
+      const [, field, predicate = 'eq', listed] = match;
+      const negated = key.startsWith('filter[not]');
+      const operator = negated && predicate === 'in' ? 'nin' : PREDICATES.get(predicate);
+      if (!operator) return;
+      if (operator !== 'in' && operator !== 'nin') {
+        filters.push({ field, operator, value });
+        return;
+      }
+
+      const values = listed ? [value] : value.split(',').filter(Boolean);
+      const existing = filters.find(filter => filter.field === field && filter.operator === operator);
+      if (existing) {
+        existing.value = [...existing.value, ...values];
+      } else {
+        filters.push({ field, operator, value: values });
+      }
+      return;
+    }
+
+    switch (key) {
+      case 'sort':
+        options.sort = value.split(',').filter(Boolean).map((field): SortOption =>
+          field.startsWith('-') ? { field: field.slice(1), direction: 'desc' } : { field, direction: 'asc' }
+        );
+        break;
+      case 'include':
+        options.include = value.split(',').filter(Boolean);
+        break;
+      case 'search':
+        options.search = value;
+        break;
+      case 'page':
+      case 'per_page': {
+        const number = Number(value);
+        if (Number.isFinite(number)) options[key] = number;
+        break;
+      }
+    }
+  });
+
+  if (filters.length > 0) options.filters = filters;
+  return options;
+}
+
+function isQueryKey(key: string): boolean {
+  return key.startsWith('filter[') || ['sort', 'include', 'search', 'page', 'per_page'].includes(key);
+}
+
+/**
+ * Reads list-view QueryOptions from the current URL
+ */
+export function readQueryFromUrl(location: Location = window.location): QueryOptions {
+  return parseQuery(location.search);
+}
+
+/**
+ * Mirrors QueryOptions into the current URL, keeping unrelated params, so filtered views are linkable
+ */
+export function writeQueryToUrl(options: QueryOptions, { replace = true }: { replace?: boolean } = {}) {
+  const url = new URL(window.location.href);
+  [...url.searchParams.keys()].filter(isQueryKey).forEach(key => url.searchParams.delete(key));
+  appendParams(url.searchParams, serializeQuery(options));
+
+  if (url.href === window.location.href) return;
+  if (replace) {
+    window.history.replaceState(window.history.state, '', url);
+  } else {
+    window.history.pushState(window.history.state, '', url);
+  }
+}
@@ -0,0 +1,241 @@
+// SafeMD scans: stream markdown over the scan socket (`scan:*`) for live progress, or fall back to
+// an async job polled over REST when the socket is unavailable
+import { writable, type Readable, type Writable } from 'svelte/store';
+import { ChannelClient, type ChannelState } from './channels';
+import { createApiService, type ApiService } from '../../services/api';
+import type { ScanAlert, ScanOptions, ScanProgress, ScanReport, ScanSummary } from '../../types/scan';
+
+// ScanChannel rejects chunks over 64 KB; 16k UTF-16 units stay under that in UTF-8
+const CHUNK_LENGTH = 16_000;
+const POLL_INTERVAL_MS = 1_500;
+const JOIN_TIMEOUT_MS = 5_000;
+
+interface ScanEvents {
+  chunk_ack: { sequence: number; status: string };
+  chunk_error: { sequence: number; error: string };
+  chunk_analysis: { sequence: number; threats_found: number; capabilities_found: number; safe: boolean };
+  real_time_alert: ScanAlert;
+  scan_progress: { progress?: number; [key: string]: unknown };
+  scan_complete: { sequence: number; result: ScanReport; summary: ScanSummary };
+  scan_error: { error: string };
+  scan_cancelled: { scan_id: string };
+  stream_timeout: { message: string };
+}
+
+interface ScanPushes {
+  stream_chunk: { payload: { chunk: string; sequence: number }; reply: never };
+  stream_complete: { payload: { final_sequence: number }; reply: never };
+  cancel_scan: { payload: Record<string, never>; reply: never };
+}
+
+export class ScanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanError';
+  }
+}
+
+export interface ScanJob {
+  progress: Readable<ScanProgress>;
+  result: Promise<ScanReport>;
+  cancel(): void;
+}
+
+interface ScanRun {
+  progress: Writable<ScanProgress>;
+  cancelled: boolean;
+  // Set while the socket stream is running
+  onCancel: (() => void) | null;
+}
+
+export interface ScanClientOptions {
+  api?: ApiService;
+  endpoint?: string;
+}
+
+function chunk(content: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < content.length) {
+    let end = Math.min(start + CHUNK_LENGTH, content.length);
+    // Never split a surrogate pair across chunks
+    const last = content.charCodeAt(end - 1);
+    if (end < content.length && last >= 0xd800 && last <= 0xdbff) end--;
+    chunks.push(content.slice(start, end));
+    start = end;
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
+
+function scanId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export class ScanClient {
+  private channels: ChannelClient;
+  private api: ApiService | undefined;
+
+  constructor(options: ScanClientOptions = {}) {
+    // Every scan join error (auth, quota, bad mode) is final; fall back instead of rejoining
+    this.channels = new ChannelClient({ endpoint: options.endpoint ?? '/scan/websocket', fatalReasons: () => true });
+    this.api = options.api;
+  }
+
+  private get rest(): ApiService {
+    this.api ??= createApiService({ baseUrl: '/api/v1', apiToken: '', csrfToken: '' });
+    return this.api;
+  }
+
+  /**
+   * Scan markdown, streaming over the socket when possible
+   */
+  scan(content: string, options: ScanOptions = {}): ScanJob {
+    const totalBytes = new TextEncoder().encode(content).length;
+    const run: ScanRun = {
+      progress: writable<ScanProgress>({
+        phase: 'connecting',
+        transport: null,
+        progress: 0,
+        bytesSent: 0,
+        totalBytes,
+        threatsFound: 0,
+        alerts: []
+      }),
+      cancelled: false,
+      onCancel: null
+    };
+    const update = (changes: Partial<ScanProgress>) => run.progress.update(p => ({ ...p, ...changes }));
+
+    const result = this.stream(content, options, run)
+      .then(report => report ?? this.poll(content, options, run))
+      .then(
+        report => {
+          update({ phase: 'complete', progress: 1, bytesSent: totalBytes });
+          return report;
+        },
+        error => {
+          if (!run.cancelled) update({ phase: 'failed', error: error.message });
+          throw error;
+        }
+      );
+
+    return {
+      progress: { subscribe: run.progress.subscribe },
+      result,
+      cancel: () => {
+        if (run.cancelled) return;
+        run.cancelled = true;
+        run.onCancel?.();
+        update({ phase: 'cancelled' });
+      }
+    };
+  }
+
+  // Resolves with the report, or null when the socket could not be used
+  private stream(content: string, options: ScanOptions, run: ScanRun): Promise<ScanReport | null> {
+    const { mode = 'sanitize', ...scanOptions } = options;
+    const update = (changes: Partial<ScanProgress>) => run.progress.update(p => ({ ...p, ...changes }));
+    const handle = this.channels.join<ScanEvents, ScanPushes>(`scan:${scanId()}`, {
+      mode: mode === 'research' ? 'detect' : mode,
+      options: scanOptions,
+      chunk_processing: true,
+      real_time_alerts: true
+    });
+
+    return new Promise((resolve, reject) => {
+      const chunks = chunk(content);
+      let acked = 0;
+      let started = false;
+      let settled = false;
+      let unsubscribe: () => void = () => {};
+
+      const finish = (outcome: ScanReport | null | Error) => {
+        if (settled) return;
+        settled = true;
+        run.onCancel = null;
+        clearTimeout(joinTimer);
+        unsubscribe();
+        handle.leave();
+        outcome instanceof Error ? reject(outcome) : resolve(outcome);
+      };
+
+      run.onCancel = () => {
+        if (started) handle.send('cancel_scan', {});
+        finish(new ScanError('Scan cancelled'));
+      };
+
+      // Socket unavailable or join refused: let the caller poll instead
+      const joinTimer = setTimeout(() => finish(null), JOIN_TIMEOUT_MS);
+      unsubscribe = handle.state.subscribe((state: ChannelState) => {
+        if (state.status === 'failed') finish(null);
+        if (state.status !== 'joined' || started) return;
+
+        started = true;
+        clearTimeout(joinTimer);
+        update({ phase: 'streaming', transport: 'channel' });
+        chunks.forEach((text, sequence) => handle.send('stream_chunk', { chunk: text, sequence }));
+        handle.send('stream_complete', { final_sequence: chunks.length - 1 });
+      });
+
+      handle.on('chunk_ack', () => {
+        acked++;
+        run.progress.update(p => ({
+          ...p,
+          bytesSent: Math.round((acked / chunks.length) * p.totalBytes),
+          // Uploading is most of the work; the final analysis fills the rest
+          progress: (acked / chunks.length) * 0.9,
+          phase: acked === chunks.length ? 'analyzing' : p.phase
+        }));
+      });
+      handle.on('chunk_analysis', analysis => {
+        run.progress.update(p => ({ ...p, threatsFound: p.threatsFound + analysis.threats_found }));
+      });
+      handle.on('real_time_alert', alert => {
+        run.progress.update(p => ({ ...p, alerts: [...p.alerts, alert] }));
+      });
+      handle.on('scan_progress', payload => {
+        if (typeof payload.progress === 'number') update({ progress: Math.max(0.9, payload.progress) });
+      });
+      handle.on('scan_complete', ({ result, summary }) => finish({ ...result, summary }));
+      handle.on('chunk_error', ({ error }) => finish(new ScanError(error)));
+      handle.on('scan_error', ({ error }) => finish(new ScanError(error)));
+      handle.on('stream_timeout', ({ message }) => finish(new ScanError(message)));
+    });
+  }
+
+  private async poll(content: string, options: ScanOptions, run: ScanRun): Promise<ScanReport> {
+    const update = (changes: Partial<ScanProgress>) => run.progress.update(p => ({ ...p, ...changes }));
+    if (run.cancelled) throw new ScanError('Scan cancelled');
+
+    update({ phase: 'queued', transport: 'polling' });
+    const { data: job } = await this.rest.submitAsyncScan({ content, ...options });
+    if (!job.job_id) throw new ScanError(job.error ?? 'Scan could not be queued');
+
+    while (!run.cancelled) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      const { data: status } = await this.rest.getAsyncScanResult(job.job_id);
+
+      switch (status.status) {
+        case 'completed':
+          if (!status.data) throw new ScanError('Scan finished without a report');
+          return status.data;
+        case 'failed':
+          throw new ScanError(status.error ?? 'Scan failed');
+        default:
+          update({ phase: status.status === 'queued' ? 'queued' : 'analyzing', progress: status.progress ?? 0 });
+      }
+    }
+    throw new ScanError('Scan cancelled');
+  }
+}
+
+export const scanner = new ScanClient();
+
+/**
+ * Scan markdown with the shared client
+ */
+export function scanMarkdown(content: string, options?: ScanOptions): ScanJob {
+  return scanner.scan(content, options);
+}
@@ -0,0 +1,220 @@
+// zod schemas mirroring the entity types in types/index.ts and types/containers.ts.
+// Fields the server does not always send are nullish here even where the TS type is stricter.
+import { z } from 'zod';
+
+export type SchemaMode = 'strict' | 'lenient';
+
+// Field builders: strict mode rejects bad values, lenient mode coerces or drops them
+function fields(mode: SchemaMode) {
+  const lenient = mode === 'lenient';
+
+  return {
+    id: () => (lenient ? z.coerce.string() : z.string()),
+    text: () => (lenient ? z.coerce.string().catch('') : z.string()),
+    optionalText: () => (lenient ? z.string().nullish().catch(undefined) : z.string().nullish()),
+    timestamp: () => (lenient ? z.string().catch('') : z.string()),
+    optionalTimestamp: () => (lenient ? z.string().nullish().catch(undefined) : z.string().nullish()),
+    count: () => (lenient ? z.coerce.number().nullish().catch(undefined) : z.number().nullish()),
+    flag: () => (lenient ? z.boolean().nullish().catch(undefined) : z.boolean().nullish()),
+    choice: <const T extends readonly [string, ...string[]]>(values: T, fallback: T[number]) =>
+      lenient ? z.enum(values).catch(fallback) : z.enum(values),
+    optionalChoice: <const T extends readonly [string, ...string[]]>(values: T) =>
+      lenient ? z.enum(values).nullish().catch(undefined) : z.enum(values).nullish(),
+    list: <T extends z.ZodType>(item: T) =>
+      lenient ? z.array(item).nullish().catch(undefined) : z.array(item).nullish(),
+    record: () => (lenient ? z.record(z.string(), z.any()).nullish().catch(undefined) : z.record(z.string(), z.any()).nullish()),
+    // Unknown keys are kept: the server sends more than the UI types declare
+    entity: <T extends z.ZodRawShape>(shape: T) => z.looseObject(shape)
+  };
+}
+
+export function defineSchemas(mode: SchemaMode) {
+  const f = fields(mode);
+
+  const User = f.entity({
+    id: f.id(),
+    email: f.text(),
+    name: f.optionalText(),
+    avatar: f.optionalText(),
+    created_at: f.optionalTimestamp(),
+    updated_at: f.optionalTimestamp(),
+    confirmed_at: f.optionalTimestamp(),
+    is_admin: f.flag(),
+    settings: f.record()
+  });
+
+  const Team = f.entity({
+    id: f.id(),
+    name: f.text(),
+    description: f.optionalText(),
+    domain: f.optionalText(),
+    is_personal: f.flag(),
+    // Omitted by the Jason encoder used for server-rendered team lists
+    created_at: f.optionalTimestamp(),
+    updated_at: f.optionalTimestamp(),
+    members_count: f.count(),
+    workspaces_count: f.count()
+  });
+
+  const teamRole = ['owner', 'admin', 'member', 'viewer'] as const;
+
+  const UserTeam = f.entity({
+    id: f.id(),
+    user_id: f.id(),
+    team_id: f.id(),
+    role: f.choice(teamRole, 'member'),
+    joined_at: f.optionalTimestamp(),
+    user: User.nullish()
+  });
+
+  const TeamInvitation = f.entity({
+    id: f.id(),
+    team_id: f.id(),
+    role: f.choice(teamRole, 'member'),
+    status: f.choice(['pending', 'accepted', 'declined', 'expired'], 'pending'),
+    email: f.optionalText(),
+    invited_email: f.optionalText(),
+    expires_at: f.optionalTimestamp(),
+    created_at: f.optionalTimestamp(),
+    team: Team.partial().nullish()
+  });
+
+  const Workspace = f.entity({
+    id: f.id(),
+    name: f.text(),
+    description: f.optionalText(),
+    status: f.choice(['active', 'archived', 'deleted'], 'active'),
+    storage_backend: f.optionalChoice(['local', 'git', 's3', 'github']),
+    storage_path: f.optionalText(),
+    git_repository_url: f.optionalText(),
+    git_branch: f.optionalText(),
+    team_id: f.id(),
+    created_by_id: f.optionalText(),
+    created_at: f.timestamp(),
+    updated_at: f.timestamp(),
+    documents_count: f.count(),
+    notebooks_count: f.count(),
+    size_bytes: f.count(),
+    tags: f.list(z.string())
+  });
+
+  const Document = f.entity({
+    id: f.id(),
+    title: f.text(),
+    description: f.optionalText(),
+    content: f.optionalText(),
+    content_type: f.optionalText(),
+    is_public: f.flag(),
+    tags: f.list(z.string()),
+    metadata: f.record(),
+    file_path: f.optionalText(),
+    file_size_bytes: f.count(),
+    checksum: f.optionalText(),
+    version: f.count(),
+    workspace_id: f.id(),
+    team_id: f.id(),
+    created_at: f.timestamp(),
+    updated_at: f.timestamp()
+  });
+
+  const NotebookTask = f.entity({
+    id: f.id(),
+    notebook_id: f.id(),
+    name: f.optionalText(),
+    language: f.optionalText(),
+    code: f.optionalText(),
+    order_index: f.count(),
+    is_executable: f.flag(),
+    execution_count: f.count(),
+    last_execution_status: f.optionalChoice(['success', 'error', 'timeout', 'cancelled']),
+    last_execution_at: f.optionalTimestamp(),
+    last_output: f.optionalText(),
+    last_error: f.optionalText(),
+    created_at: f.timestamp(),
+    updated_at: f.timestamp()
+  });
+
+  const Notebook = f.entity({
+    id: f.id(),
+    title: f.text(),
+    content: f.optionalText(),
+    // The server reports states the UI union does not list yet (e.g. "draft")
+    status: f.text(),
+    language: f.optionalText(),
+    collaborative_mode: f.flag(),
+    auto_save_enabled: f.flag(),
+    task_count: f.count(),
+    completed_task_count: f.count(),
+    workspace_id: f.id(),
+    document_id: f.optionalText(),
+    team_id: f.id(),
+    created_at: f.timestamp(),
+    updated_at: f.timestamp(),
+    tasks: f.list(NotebookTask)
+  });
+
+  const ContainerService = f.entity({
+    id: f.id(),
+    name: f.text(),
+    folder_path: f.text(),
+    service_type: f.text(),
+    detection_confidence: f.count(),
+    status: f.choice(
+      ['detecting', 'pending', 'building', 'deploying', 'running', 'stopped', 'error', 'scaling', 'restarting'],
+      'pending'
+    ),
+    container_id: f.optionalText(),
+    image_id: f.optionalText(),
+    deployment_config: f.record(),
+    port_mappings: f.record(),
+    environment_variables: f.record(),
+    volume_mounts: f.record(),
+    resource_limits: f.record(),
+    scaling_config: f.record(),
+    health_check_config: f.record(),
+    labels: f.record(),
+    network_config: f.record(),
+    workspace_id: f.id(),
+    team_id: f.id(),
+    created_at: f.timestamp(),
+    updated_at: f.timestamp(),
+    deployed_at: f.optionalTimestamp(),
+    stopped_at: f.optionalTimestamp()
+  });
+
+  const TopologyAnalysis = f.entity({
+    id: f.id(),
+    folder_path: f.text(),
+    detection_timestamp: f.optionalTimestamp(),
+    detected_patterns: f.record(),
+    service_graph: f.record(),
+    recommended_services: f.list(f.record()),
+    confidence_scores: f.record(),
+    file_indicators: f.list(f.record()),
+    deployment_strategy: f.optionalText(),
+    total_services_detected: f.count(),
+    workspace_id: f.id(),
+    team_id: f.optionalText(),
+    created_at: f.optionalTimestamp(),
+    updated_at: f.optionalTimestamp()
+  });
+
+  return {
+    User,
+    Team,
+    UserTeam,
+    TeamInvitation,
+    Workspace,
+    Document,
+    Notebook,
+    NotebookTask,
+    ContainerService,
+    TopologyAnalysis
+  };
+}
+
+export type EntitySchemas = ReturnType<typeof defineSchemas>;
+export type EntityName = keyof EntitySchemas;
+
+export const strictSchemas = defineSchemas('strict');
+export const lenientSchemas = defineSchemas('lenient');
@@ -0,0 +1,186 @@
+// Live ServiceUpdate stream for a workspace: `service_update` pushes on the workspace's execution
+// topic, with polling of the REST endpoints whenever the channel is not joined (and slowly until the
+// first push arrives)
+import { derived, get, writable, type Readable } from 'svelte/store';
+import { channels, type ChannelClient, type ChannelState } from './channels';
+import { executionTopic } from './execution-channel';
+import type { ApiService } from '../../services/api';
+import type { ContainerService, DeploymentEvent, ServiceUpdate } from '../../types/containers';
+
+export type ServiceUpdateMode = 'connecting' | 'realtime' | 'polling';
+
+export interface ServiceUpdateFeedState {
+  mode: ServiceUpdateMode;
+  realtime_connected: boolean;
+  // Last update received by either path
+  last_update_at: string | null;
+}
+
+export interface ServiceUpdateFeedOptions {
+  api: () => ApiService | null;
+  client?: ChannelClient;
+  pollIntervalMs?: number;
+  // Poll interval while joined but before the first push: joining does not prove anything publishes
+  confirmIntervalMs?: number;
+  // How long the channel may stay unjoined before polling kicks in
+  fallbackAfterMs?: number;
+}
+
+interface ServiceUpdateEvents {
+  service_update: ServiceUpdate;
+}
+
+interface ServiceSnapshot {
+  status: ContainerService['status'];
+  eventIds: Set<string>;
+}
+
+export interface ServiceUpdateFeed extends Readable<ServiceUpdateFeedState> {
+  onUpdate(listener: (update: ServiceUpdate) => void): () => void;
+  // Seed the poller with the services already on screen so the first poll only reports changes
+  prime(services: (ContainerService & { deployment_events?: DeploymentEvent[] })[]): void;
+  stop(): void;
+}
+
+/**
+ * Subscribe to live updates for the services of one workspace
+ */
+export function createServiceUpdateFeed(workspaceId: string, options: ServiceUpdateFeedOptions): ServiceUpdateFeed {
+  const { api, client = channels, pollIntervalMs = 10_000, confirmIntervalMs = 60_000, fallbackAfterMs = 5_000 } = options;
+  const listeners = new Set<(update: ServiceUpdate) => void>();
+  const lastUpdate = writable<string | null>(null);
+  const mode = writable<ServiceUpdateMode>('connecting');
+  const known = new Map<string, ServiceSnapshot>();
+
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let fallbackTimer: ReturnType<typeof setTimeout> | undefined;
+  let polling = false;
+  let pushed = false;
+
+  function emit(update: ServiceUpdate) {
+    lastUpdate.set(update.timestamp);
+    listeners.forEach(listener => {
+      try {
+        listener(update);
+      } catch (e) {
+        console.error('Service update listener failed:', e);
+      }
+    });
+  }
+
+  async function poll() {
+    const service = api();
+    if (!service || polling) return;
+    polling = true;
+    try {
+      const { data: services } = await service.listWorkspaceServices(workspaceId);
+      const timestamp = new Date().toISOString();
+
+      for (const current of services) {
+        const previous = known.get(current.id);
+        const snapshot: ServiceSnapshot = previous ?? { status: current.status, eventIds: new Set() };
+        known.set(current.id, snapshot);
+
+        if (previous && previous.status !== current.status) {
+          snapshot.status = current.status;
+          emit({ service_id: current.id, type: 'status_change', data: { status: current.status }, timestamp });
+
+          // Status moved: pick up the deployment events that explain it
+          const { data: detail } = await service.getService(current.id);
+          const events = (detail as ContainerService & { deployment_events?: DeploymentEvent[] }).deployment_events ?? [];
+          for (const event of events) {
+            if (snapshot.eventIds.has(event.id)) continue;
+            snapshot.eventIds.add(event.id);
+            emit({ service_id: current.id, type: 'deployment_event', data: event, timestamp: event.occurred_at });
+          }
+        }
+
+        if (current.status === 'running') {
+          const { data: metrics } = await service.getServiceMetrics(current.id);
+          emit({ service_id: current.id, type: 'metrics_update', data: metrics.resource_utilization, timestamp: metrics.updated_at });
+        }
+      }
+    } catch (e) {
+      console.warn('Service status poll failed:', e);
+    } finally {
+      polling = false;
+    }
+  }
+
+  function startPolling(interval = pollIntervalMs) {
+    if (pollTimer) return;
+    poll();
+    pollTimer = setInterval(poll, interval);
+  }
+
+  function fallBackToPolling() {
+    if (pollTimer && get(mode) === 'polling') return;
+    stopPolling();
+    mode.set('polling');
+    startPolling();
+  }
+
+  function stopPolling() {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+
+  const handle = client.join<ServiceUpdateEvents>(executionTopic('workspace', workspaceId));
+  handle.on('service_update', update => {
+    const snapshot = known.get(update.service_id);
+    if (snapshot && update.type === 'status_change' && update.data?.status) snapshot.status = update.data.status;
+    if (snapshot && update.type === 'deployment_event' && update.data?.id) snapshot.eventIds.add(update.data.id);
+    if (!pushed) {
+      pushed = true;
+      if (get(mode) === 'realtime') stopPolling();
+    }
+    emit(update);
+  });
+
+  const unsubscribeState = handle.state.subscribe((state: ChannelState) => {
+    if (state.status === 'joined') {
+      clearTimeout(fallbackTimer);
+      fallbackTimer = undefined;
+      stopPolling();
+      mode.set('realtime');
+      if (!pushed) startPolling(confirmIntervalMs);
+    } else if (state.status === 'failed') {
+      fallBackToPolling();
+    } else if (get(mode) !== 'polling' && !fallbackTimer) {
+      // Give the socket a moment to (re)join before hitting the REST endpoints
+      fallbackTimer = setTimeout(() => {
+        fallbackTimer = undefined;
+        fallBackToPolling();
+      }, fallbackAfterMs);
+    }
+  });
+
+  const state = derived([mode, lastUpdate], ([$mode, $lastUpdate]) => ({
+    mode: $mode,
+    realtime_connected: $mode === 'realtime',
+    last_update_at: $lastUpdate
+  }));
+
+  return {
+    subscribe: state.subscribe,
+    onUpdate(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    prime(services) {
+      services.forEach(service => {
+        known.set(service.id, {
+          status: service.status,
+          eventIds: new Set((service.deployment_events ?? []).map(event => event.id))
+        });
+      });
+    },
+    stop() {
+      unsubscribeState();
+      clearTimeout(fallbackTimer);
+      stopPolling();
+      handle.leave();
+      listeners.clear();
+    }
+  };
+}
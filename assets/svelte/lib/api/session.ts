@@ -0,0 +1,270 @@
+// Owns the API token: persistence, expiry, proactive refresh and cross-tab login/logout
+import { writable, type Readable } from 'svelte/store';
+import type { User } from '../../types';
+
+export type SessionStatus = 'anonymous' | 'authenticated' | 'refreshing' | 'expired';
+
+export interface SessionState {
+  token: string | null;
+  // Epoch milliseconds; null when the token carries no expiry (e.g. Phoenix.Token)
+  expiresAt: number | null;
+  user: User | null;
+  status: SessionStatus;
+}
+
+export interface SessionGrant {
+  token: string;
+  expiresAt?: number | null;
+  user?: User | null;
+}
+
+export type LogoutReason = 'logout' | 'expired' | 'remote' | 'switch';
+
+export interface SessionOptions {
+  storageKey?: string;
+  channelName?: string;
+  // Refresh this long before expiry
+  refreshMarginMs?: number;
+  // Exchanges the current session for a fresh grant; null means the session cannot be renewed
+  refresh?: (current: SessionState) => Promise<SessionGrant | null>;
+}
+
+type SessionMessage =
+  | { type: 'login'; grant: SessionGrant }
+  | { type: 'refresh'; grant: SessionGrant }
+  | { type: 'logout'; reason?: LogoutReason };
+
+const ANONYMOUS: SessionState = { token: null, expiresAt: null, user: null, status: 'anonymous' };
+
+/**
+ * Expiry of a JWT from its `exp` claim; opaque tokens return null
+ */
+export function tokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const exp = JSON.parse(json).exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export class SessionManager implements Readable<SessionState> {
+  private state = writable<SessionState>(ANONYMOUS);
+  private current: SessionState = ANONYMOUS;
+  private options: Required<Omit<SessionOptions, 'refresh'>> & Pick<SessionOptions, 'refresh'>;
+  private channel: BroadcastChannel | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  private logoutListeners = new Set<(reason: LogoutReason) => void>();
+  private started = false;
+  // User of a session that expired; signing in as someone else afterwards counts as a switch
+  private lapsedUserId: string | null = null;
+
+  subscribe = this.state.subscribe;
+
+  constructor(options: SessionOptions = {}) {
+    this.options = {
+      storageKey: 'auth_token',
+      channelName: 'kyozo-session',
+      refreshMarginMs: 60_000,
+      ...options
+    };
+  }
+
+  configure(options: SessionOptions) {
+    this.options = { ...this.options, ...options };
+    this.schedule();
+  }
+
+  /**
+   * Restore a persisted session and start listening to other tabs
+   */
+  start() {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    const stored = localStorage.getItem(this.options.storageKey) || sessionStorage.getItem(this.options.storageKey);
+    if (stored && !this.current.token) this.apply({ token: stored });
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.options.channelName);
+      this.channel.onmessage = event => this.receive(event.data as SessionMessage);
+    } else {
+      // Older browsers: storage events fire in every other tab
+      window.addEventListener('storage', event => {
+        if (event.key !== this.options.storageKey) return;
+        this.receive(event.newValue ? { type: 'login', grant: { token: event.newValue } } : { type: 'logout' });
+      });
+    }
+  }
+
+  /**
+   * Current token, or null once it has expired
+   */
+  getToken(): string | null {
+    const { token, expiresAt } = this.current;
+    if (!token) return null;
+    return expiresAt !== null && expiresAt <= Date.now() ? null : token;
+  }
+
+  get snapshot(): SessionState {
+    return this.current;
+  }
+
+  /**
+   * Adopt a token (e.g. server-rendered into the page); re-adopting the same token is a no-op
+   */
+  login(grant: SessionGrant) {
+    // Restore first so a token left by a previous user counts as a switch
+    this.start();
+    if (grant.token === this.current.token) {
+      if (grant.user) this.set({ ...this.current, user: grant.user });
+      return;
+    }
+    // A different user's token: nothing from the previous session may survive
+    if (this.current.token || this.isOtherUser(grant)) this.notifyLogout('switch');
+    this.lapsedUserId = null;
+    this.apply(grant);
+    this.broadcast({ type: 'login', grant: this.sharedGrant(grant) });
+  }
+
+  logout(reason: LogoutReason = 'logout') {
+    if (!this.current.token && this.current.status === 'anonymous') return;
+    this.lapsedUserId = reason === 'expired' ? (this.current.user?.id ?? null) : null;
+    this.clear(reason === 'expired' ? 'expired' : 'anonymous');
+    this.notifyLogout(reason);
+    this.broadcast({ type: 'logout', reason });
+  }
+
+  /**
+   * Renew the token; concurrent callers share one attempt. Resolves false when renewal is impossible.
+   */
+  refresh(): Promise<boolean> {
+    if (this.refreshing) return this.refreshing;
+    const refresher = this.options.refresh;
+    if (!refresher || !this.current.token) return Promise.resolve(false);
+
+    const previous = this.current;
+    this.set({ ...previous, status: 'refreshing' });
+
+    this.refreshing = refresher(previous)
+      .then(grant => {
+        if (!grant) {
+          this.set({ ...previous, status: 'authenticated' });
+          return false;
+        }
+        this.apply({ user: previous.user, ...grant });
+        this.broadcast({ type: 'refresh', grant: this.sharedGrant(grant) });
+        return true;
+      })
+      .catch(error => {
+        console.warn('Session refresh failed:', error);
+        this.set({ ...previous, status: 'authenticated' });
+        return false;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+
+    return this.refreshing;
+  }
+
+  /**
+   * Called whenever the session ends or changes user, in this tab or another one
+   */
+  onLogout(listener: (reason: LogoutReason) => void): () => void {
+    this.logoutListeners.add(listener);
+    return () => this.logoutListeners.delete(listener);
+  }
+
+  private apply(grant: SessionGrant) {
+    const expiresAt = grant.expiresAt !== undefined ? grant.expiresAt : tokenExpiry(grant.token);
+    localStorage.setItem(this.options.storageKey, grant.token);
+    this.set({ token: grant.token, expiresAt, user: grant.user ?? null, status: 'authenticated' });
+    this.schedule();
+  }
+
+  private clear(status: SessionStatus) {
+    localStorage.removeItem(this.options.storageKey);
+    sessionStorage.removeItem(this.options.storageKey);
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    this.set({ ...ANONYMOUS, status });
+  }
+
+  private set(state: SessionState) {
+    this.current = state;
+    this.state.set(state);
+  }
+
+  private schedule() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+
+    const { expiresAt } = this.current;
+    if (expiresAt === null || !this.current.token) return;
+
+    const delay = Math.max(0, expiresAt - Date.now() - this.options.refreshMarginMs);
+    this.refreshTimer = setTimeout(async () => {
+      if (await this.refresh()) return;
+      // Not renewable: end the session when the token actually lapses
+      const remaining = (this.current.expiresAt ?? Infinity) - Date.now();
+      if (remaining === Infinity) return;
+      this.refreshTimer = setTimeout(() => this.logout('expired'), Math.max(0, remaining));
+    }, delay);
+  }
+
+  // Users are not sent across tabs; each tab keeps its own copy of the profile
+  private sharedGrant(grant: SessionGrant): SessionGrant {
+    return { token: grant.token, expiresAt: grant.expiresAt };
+  }
+
+  private broadcast(message: SessionMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private receive(message: SessionMessage) {
+    switch (message.type) {
+      case 'login':
+        if (message.grant.token === this.current.token) return;
+        if (this.current.token || this.isOtherUser(message.grant)) this.notifyLogout('switch');
+        this.lapsedUserId = null;
+        this.apply(message.grant);
+        break;
+      case 'refresh':
+        // Same user, new token: no store reset
+        this.apply({ user: this.current.user, ...message.grant });
+        break;
+      case 'logout':
+        if (!this.current.token) return;
+        if (message.reason === 'expired') {
+          this.lapsedUserId = this.current.user?.id ?? null;
+          this.clear('expired');
+          this.notifyLogout('expired');
+        } else {
+          this.clear('anonymous');
+          this.notifyLogout('remote');
+        }
+        break;
+    }
+  }
+
+  private isOtherUser(grant: SessionGrant): boolean {
+    return this.lapsedUserId !== null && !!grant.user && grant.user.id !== this.lapsedUserId;
+  }
+
+  private notifyLogout(reason: LogoutReason) {
+    this.logoutListeners.forEach(listener => {
+      try {
+        listener(reason);
+      } catch (e) {
+        console.error('Session logout listener failed:', e);
+      }
+    });
+  }
+}
+
+export const session = new SessionManager();
@@ -5,10 +5,10 @@ export const storageAPI = {
   /**
    * List files with virtual files included
    */
-  async listVFS(teamId: string, workspaceId: string, path: string = '/'): Promise<VFSListing> {
+  async listVFS(teamId: string, workspaceId: string, path: string = '/', signal?: AbortSignal): Promise<VFSListing> {
     const response = await api.get(
       `/teams/${teamId}/workspaces/${workspaceId}/storage/vfs`,
-      { params: { path } }
+      { params: { path }, signal }
     );
     return response.data.data;
   },
@@ -16,10 +16,10 @@ export const storageAPI = {
   /**
    * Read virtual file content
    */
-  async readVirtualFile(teamId: string, workspaceId: string, path: string): Promise<VFSContent> {
+  async readVirtualFile(teamId: string, workspaceId: string, path: string, signal?: AbortSignal): Promise<VFSContent> {
     const response = await api.get(
       `/teams/${teamId}/workspaces/${workspaceId}/storage/vfs/content`,
-      { params: { path } }
+      { params: { path }, signal }
     );
     return response.data.data;
   },
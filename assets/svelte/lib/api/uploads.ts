@@ -0,0 +1,460 @@
+// Upload manager for workspace files: chunked, resumable transfers with bounded parallelism and
+// per-file progress. XHR is used instead of fetch because fetch cannot report upload progress.
+//
+// Large files use a resumable session under /teams/:team_id/workspaces/:workspace_id/files/uploads:
+//   POST   /uploads                      -> { data: { id, received_chunks } }
+//   PUT    /uploads/:id/chunks/:index    (raw bytes, Content-Range)
+//   GET    /uploads/:id                  -> { data: { received_chunks } }
+//   POST   /uploads/:id/complete         -> { data: UploadResponse | Document }
+// When the server does not offer sessions (404/405 on create) the file goes to /files/upload whole.
+import { writable, type Readable } from 'svelte/store';
+import { ApiRequestError, NetworkError, RequestCancelledError, TimeoutError, type UploadResponse } from '../../types/api';
+import { createApiError } from './errors';
+import { session } from './session';
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadTarget {
+  teamId: string;
+  workspaceId: string;
+}
+
+export interface UploadItem {
+  id: string;
+  filename: string;
+  size: number;
+  target: UploadTarget;
+  commitMessage: string;
+  status: UploadStatus;
+  uploadedBytes: number;
+  error?: string;
+  documentId?: string;
+  tasksExtracted?: number;
+  // Resumable session id, once the server has opened one
+  sessionId?: string;
+}
+
+export interface UploadTrayState {
+  items: UploadItem[];
+  totalBytes: number;
+  uploadedBytes: number;
+  // 0..1 across every file that is not cancelled
+  progress: number;
+  active: boolean;
+}
+
+export interface UploadManagerOptions {
+  baseUrl?: string;
+  chunkSize?: number;
+  // Requests in flight at once, across all files
+  concurrency?: number;
+}
+
+interface Transfer {
+  file: File;
+  controller: AbortController;
+  // Bytes confirmed per chunk index, plus progress of chunks still in flight
+  completed: Set<number>;
+  inFlight: Map<number, number>;
+  settle: () => void;
+  // Automatic resumes since the transfer last made progress
+  attempts: number;
+  resumeTimer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const FINISHED: UploadStatus[] = ['done', 'failed', 'cancelled'];
+
+// Paused transfers resume on their own with exponential backoff, then fail
+const MAX_RESUME_ATTEMPTS = 6;
+const RESUME_BASE_DELAY_MS = 2_000;
+const RESUME_MAX_DELAY_MS = 60_000;
+const TRANSIENT_STATUSES = [408, 429, 502, 503, 504];
+
+function uploadId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function isTransientError(error: unknown): boolean {
+  return error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    (error instanceof ApiRequestError && TRANSIENT_STATUSES.includes(error.status));
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+  });
+  return headers;
+}
+
+/**
+ * One XHR request with the same auth headers and error types as HttpClient
+ */
+function send(
+  method: string,
+  url: string,
+  body: XMLHttpRequestBodyInit | null,
+  { headers = {}, signal, onProgress }: { headers?: Record<string, string>; signal: AbortSignal; onProgress?: (loaded: number) => void }
+): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new RequestCancelledError());
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.withCredentials = true;
+
+    const csrfToken = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content');
+    if (csrfToken) xhr.setRequestHeader('X-CSRF-Token', csrfToken);
+    const token = session.getToken();
+    if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    const onAbort = () => xhr.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    const done = () => signal.removeEventListener('abort', onAbort);
+
+    if (onProgress) xhr.upload.onprogress = event => onProgress(event.loaded);
+
+    xhr.onload = () => {
+      done();
+      let data: any = xhr.responseText;
+      if ((xhr.getResponseHeader('content-type') || '').includes('json')) {
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          data = undefined;
+        }
+      }
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(data);
+      } else {
+        reject(createApiError(xhr.status, xhr.statusText, data, parseHeaders(xhr.getAllResponseHeaders())));
+      }
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new NetworkError());
+    };
+    xhr.onabort = () => {
+      done();
+      reject(new RequestCancelledError());
+    };
+
+    xhr.send(body);
+  });
+}
+
+// The upload route answers with the created document; batch-style servers answer with UploadResponse
+function toResult(filename: string, body: any): Pick<UploadItem, 'documentId' | 'tasksExtracted' | 'error'> {
+  const data = body?.data ?? body;
+  if (data && (Array.isArray(data.uploaded_files) || Array.isArray(data.failed_files))) {
+    const response = data as UploadResponse;
+    const failed = response.failed_files?.find(file => file.filename === filename);
+    if (failed) return { error: failed.error };
+    const uploaded = response.uploaded_files?.find(file => file.filename === filename) ?? response.uploaded_files?.[0];
+    return { documentId: uploaded?.document_id, tasksExtracted: uploaded?.tasks_extracted };
+  }
+  return { documentId: data?.id };
+}
+
+export class UploadManager implements Readable<UploadTrayState> {
+  private options: Required<UploadManagerOptions>;
+  private items: UploadItem[] = [];
+  private transfers = new Map<string, Transfer>();
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private state = writable<UploadTrayState>({ items: [], totalBytes: 0, uploadedBytes: 0, progress: 0, active: false });
+  private listening = false;
+
+  subscribe = this.state.subscribe;
+
+  constructor(options: UploadManagerOptions = {}) {
+    this.options = {
+      baseUrl: '/api/v1',
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      concurrency: 3,
+      ...options
+    };
+  }
+
+  /**
+   * Queue files for upload; resolves with their final state once each is done, failed or cancelled
+   */
+  add(target: UploadTarget, files: File[] | FileList, { commitMessage = 'Upload document' }: { commitMessage?: string } = {}): Promise<UploadItem[]> {
+    this.listen();
+
+    const started = Array.from(files).map(file => {
+      const item: UploadItem = {
+        id: uploadId(),
+        filename: file.name,
+        size: file.size,
+        target,
+        commitMessage,
+        status: 'queued',
+        uploadedBytes: 0
+      };
+      this.items = [...this.items, item];
+
+      return new Promise<void>(settle => {
+        this.transfers.set(item.id, {
+          file,
+          controller: new AbortController(),
+          completed: new Set(),
+          inFlight: new Map(),
+          settle,
+          attempts: 0
+        });
+        this.run(item.id);
+      }).then(() => this.find(item.id)!);
+    });
+
+    this.emit();
+    return Promise.all(started);
+  }
+
+  cancel(id: string) {
+    const item = this.find(id);
+    const transfer = this.transfers.get(id);
+    if (!item || !transfer || FINISHED.includes(item.status)) return;
+
+    transfer.controller.abort();
+    clearTimeout(transfer.resumeTimer);
+    this.patch(id, { status: 'cancelled' });
+    if (item.sessionId) {
+      send('DELETE', this.sessionUrl(item.target, item.sessionId), null, { signal: new AbortController().signal }).catch(() => {});
+    }
+    this.finish(id);
+  }
+
+  /**
+   * Start a failed or paused file again, keeping chunks the server already has
+   */
+  retry(id: string) {
+    const item = this.find(id);
+    const transfer = this.transfers.get(id);
+    if (!item || !transfer || !['failed', 'paused'].includes(item.status)) return;
+
+    clearTimeout(transfer.resumeTimer);
+    if (item.status === 'failed') transfer.attempts = 0;
+    transfer.controller = new AbortController();
+    this.patch(id, { status: 'queued', error: undefined });
+    this.run(id);
+  }
+
+  dismiss(id: string) {
+    const item = this.find(id);
+    if (!item || !FINISHED.includes(item.status)) return;
+    this.transfers.delete(id);
+    this.items = this.items.filter(entry => entry.id !== id);
+    this.emit();
+  }
+
+  clearFinished() {
+    this.items.filter(item => FINISHED.includes(item.status)).forEach(item => this.transfers.delete(item.id));
+    this.items = this.items.filter(item => !FINISHED.includes(item.status));
+    this.emit();
+  }
+
+  private async run(id: string) {
+    const item = this.find(id);
+    const transfer = this.transfers.get(id);
+    if (!item || !transfer) return;
+
+    try {
+      this.patch(id, { status: 'uploading' });
+      const body = item.size > this.options.chunkSize
+        ? await this.uploadChunked(item, transfer)
+        : await this.slot(() => this.uploadWhole(item, transfer));
+
+      const result = toResult(item.filename, body);
+      this.patch(id, {
+        ...result,
+        status: result.error ? 'failed' : 'done',
+        uploadedBytes: item.size
+      });
+      if (result.error) this.settle(id);
+      else this.finish(id);
+    } catch (error) {
+      if (this.find(id)?.status === 'cancelled') return;
+      if (isTransientError(error) && transfer.attempts < MAX_RESUME_ATTEMPTS) {
+        // Resumed by the backoff timer or the `online` listener, whichever comes first;
+        // completed chunks are kept, sibling chunks are stopped
+        transfer.controller.abort();
+        transfer.inFlight.clear();
+        const delay = Math.min(RESUME_BASE_DELAY_MS * 2 ** transfer.attempts, RESUME_MAX_DELAY_MS);
+        transfer.attempts++;
+        transfer.resumeTimer = setTimeout(() => this.retry(id), delay);
+        this.patch(id, {
+          status: 'paused',
+          error: error instanceof ApiRequestError ? 'Server unavailable, retrying' : 'Waiting for network',
+          uploadedBytes: this.confirmedBytes(item, transfer)
+        });
+        return;
+      }
+      this.patch(id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      this.settle(id);
+    }
+  }
+
+  // Small files in one request, in the shape the /files/upload route reads (`file[filename]`, `file[content]`).
+  // The file goes as is; decoding it to text would corrupt binary files.
+  private async uploadWhole(item: UploadItem, transfer: Transfer): Promise<any> {
+    const form = new FormData();
+    form.append('file[filename]', item.filename);
+    form.append('file[content]', transfer.file, item.filename);
+    if (transfer.file.type) form.append('file[content_type]', transfer.file.type);
+    form.append('commit_message', item.commitMessage);
+
+    return send('POST', `${this.workspaceUrl(item.target)}/files/upload`, form, {
+      signal: transfer.controller.signal,
+      onProgress: loaded => this.progress(item.id, Math.min(loaded, item.size))
+    });
+  }
+
+  private async uploadChunked(item: UploadItem, transfer: Transfer): Promise<any> {
+    const { chunkSize } = this.options;
+    const signal = transfer.controller.signal;
+    const chunkCount = Math.ceil(item.size / chunkSize);
+
+    let sessionId = this.find(item.id)?.sessionId;
+    if (sessionId) {
+      // Resuming: trust the server's record over ours, a chunk may have landed after we lost the response
+      const status = await send('GET', this.sessionUrl(item.target, sessionId), null, { signal });
+      transfer.completed = new Set(status?.data?.received_chunks ?? []);
+    } else {
+      try {
+        const created = await send('POST', `${this.workspaceUrl(item.target)}/files/uploads`, JSON.stringify({
+          upload: {
+            filename: item.filename,
+            size: item.size,
+            content_type: transfer.file.type || undefined,
+            chunk_size: chunkSize,
+            commit_message: item.commitMessage
+          }
+        }), { headers: { 'Content-Type': 'application/json' }, signal });
+        sessionId = created?.data?.id as string;
+        transfer.completed = new Set(created?.data?.received_chunks ?? []);
+        this.patch(item.id, { sessionId });
+      } catch (error) {
+        if (error instanceof ApiRequestError && (error.status === 404 || error.status === 405)) {
+          return this.slot(() => this.uploadWhole(item, transfer));
+        }
+        throw error;
+      }
+    }
+
+    const remaining = Array.from({ length: chunkCount }, (_, index) => index)
+      .filter(index => !transfer.completed.has(index));
+
+    await Promise.all(remaining.map(index => this.slot(async () => {
+      const start = index * chunkSize;
+      const end = Math.min(start + chunkSize, item.size);
+      await send('PUT', `${this.sessionUrl(item.target, sessionId!)}/chunks/${index}`, transfer.file.slice(start, end), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${start}-${end - 1}/${item.size}`
+        },
+        signal,
+        onProgress: loaded => {
+          transfer.inFlight.set(index, loaded);
+          this.progress(item.id, this.confirmedBytes(item, transfer));
+        }
+      });
+      transfer.inFlight.delete(index);
+      transfer.completed.add(index);
+      transfer.attempts = 0;
+      this.progress(item.id, this.confirmedBytes(item, transfer));
+    })));
+
+    this.patch(item.id, { status: 'processing' });
+    return send('POST', `${this.sessionUrl(item.target, sessionId!)}/complete`, null, { signal });
+  }
+
+  // Bounded parallelism shared by every file
+  private async slot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.options.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private confirmedBytes(item: UploadItem, transfer: Transfer): number {
+    const { chunkSize } = this.options;
+    let bytes = 0;
+    transfer.completed.forEach(index => {
+      bytes += Math.min(chunkSize, item.size - index * chunkSize);
+    });
+    transfer.inFlight.forEach(loaded => {
+      bytes += loaded;
+    });
+    return Math.min(bytes, item.size);
+  }
+
+  private workspaceUrl(target: UploadTarget): string {
+    return `${this.options.baseUrl}/teams/${target.teamId}/workspaces/${target.workspaceId}`;
+  }
+
+  private sessionUrl(target: UploadTarget, sessionId: string): string {
+    return `${this.workspaceUrl(target)}/files/uploads/${sessionId}`;
+  }
+
+  private listen() {
+    if (this.listening || typeof window === 'undefined') return;
+    this.listening = true;
+    window.addEventListener('online', () => {
+      this.items.filter(item => item.status === 'paused').forEach(item => this.retry(item.id));
+    });
+  }
+
+  private finish(id: string) {
+    this.settle(id);
+    this.transfers.delete(id);
+  }
+
+  // Report the outcome to `add` but keep the file, so a failed upload can still be retried
+  // until it is dismissed
+  private settle(id: string) {
+    this.transfers.get(id)?.settle();
+  }
+
+  private find(id: string): UploadItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  private progress(id: string, uploadedBytes: number) {
+    this.patch(id, { uploadedBytes });
+  }
+
+  private patch(id: string, changes: Partial<UploadItem>) {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    this.emit();
+  }
+
+  private emit() {
+    const counted = this.items.filter(item => item.status !== 'cancelled');
+    const totalBytes = counted.reduce((sum, item) => sum + item.size, 0);
+    const uploadedBytes = counted.reduce((sum, item) => sum + item.uploadedBytes, 0);
+    this.state.set({
+      items: this.items,
+      totalBytes,
+      uploadedBytes,
+      progress: totalBytes > 0 ? uploadedBytes / totalBytes : 0,
+      active: this.items.some(item => !FINISHED.includes(item.status))
+    });
+  }
+}
+
+export const uploads = new UploadManager();
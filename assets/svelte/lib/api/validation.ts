@@ -0,0 +1,103 @@
+/// <reference types="vite/client" />
+// Validates API and LiveView payloads against the entity schemas before they reach components.
+// Strict mode (dev) throws on any violation; lenient mode (prod) logs it and coerces what it can.
+import type { z } from 'zod';
+import { ResponseValidationError } from '../../types/api';
+import type { User, Team, UserTeam, TeamInvitation, Workspace, Document, Notebook, NotebookTask } from '../../types';
+import type { ContainerService, TopologyAnalysis } from '../../types/containers';
+import { strictSchemas, lenientSchemas, type EntityName } from './schemas';
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+export interface EntityTypes {
+  User: User;
+  Team: Team;
+  UserTeam: UserTeam;
+  TeamInvitation: TeamInvitation;
+  Workspace: Workspace;
+  Document: Document;
+  Notebook: Notebook;
+  NotebookTask: NotebookTask;
+  ContainerService: ContainerService;
+  TopologyAnalysis: TopologyAnalysis;
+}
+
+let mode: ValidationMode = import.meta.env?.DEV ? 'strict' : 'lenient';
+
+export function getValidationMode(): ValidationMode {
+  return mode;
+}
+
+export function setValidationMode(next: ValidationMode) {
+  mode = next;
+}
+
+function formatIssues(issues: z.core.$ZodIssue[], prefix: PropertyKey[] = []): string[] {
+  return issues.map(issue => {
+    const path = [...prefix, ...issue.path].map(String).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+// Throws in strict mode; otherwise logs and lets the caller fall back
+function report(context: string, issues: string[]) {
+  const error = new ResponseValidationError(`Invalid ${context} payload`, issues);
+  if (mode === 'strict') throw error;
+  console.warn(`${error.message}:\n  ${issues.join('\n  ')}`);
+}
+
+/**
+ * Validates a single entity; in lenient mode bad fields are coerced and unrecoverable data passes through
+ */
+export function validate<K extends EntityName>(entity: K, data: unknown, context: string = entity): EntityTypes[K] {
+  if (mode === 'off') return data as EntityTypes[K];
+
+  const result = strictSchemas[entity].safeParse(data);
+  if (result.success) return result.data as unknown as EntityTypes[K];
+
+  report(context, formatIssues(result.error.issues));
+  const coerced = lenientSchemas[entity].safeParse(data);
+  return (coerced.success ? coerced.data : data) as unknown as EntityTypes[K];
+}
+
+/**
+ * Validates a list of entities; in lenient mode items that cannot be coerced are dropped
+ */
+export function validateList<K extends EntityName>(entity: K, data: unknown, context: string = `${entity}[]`): EntityTypes[K][] {
+  if (mode === 'off') return data as EntityTypes[K][];
+
+  if (!Array.isArray(data)) {
+    report(context, [`expected an array, received ${data === null ? 'null' : typeof data}`]);
+    return [];
+  }
+
+  const issues: string[] = [];
+  const items: EntityTypes[K][] = [];
+
+  data.forEach((item, index) => {
+    const result = strictSchemas[entity].safeParse(item);
+    if (result.success) {
+      items.push(result.data as unknown as EntityTypes[K]);
+      return;
+    }
+    issues.push(...formatIssues(result.error.issues, [index]));
+    const coerced = lenientSchemas[entity].safeParse(item);
+    if (coerced.success) items.push(coerced.data as unknown as EntityTypes[K]);
+  });
+
+  if (issues.length > 0) report(context, issues);
+  return items;
+}
+
+/**
+ * JSON.parse for server-rendered data (e.g. LiveView `data-*` attributes) that reports malformed input
+ */
+export function parseJSON<T = unknown>(raw: string | undefined, fallback: T, context: string): T {
+  if (raw === undefined || raw === '') return fallback;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    report(context, [error instanceof Error ? error.message : String(error)]);
+    return fallback;
+  }
+}
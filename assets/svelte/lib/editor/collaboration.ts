@@ -0,0 +1,116 @@
+// Binds a TipTap editor to a shared Y.Doc: content, collaborative undo and remote carets
+import type { Editor } from '@tiptap/core';
+import { keydownHandler } from '@tiptap/pm/keymap';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import * as Y from 'yjs';
+import {
+  prosemirrorToYXmlFragment,
+  redo,
+  undo,
+  yCursorPlugin,
+  ySyncPlugin,
+  ySyncPluginKey,
+  yCursorPluginKey,
+  yUndoPlugin,
+  yUndoPluginKey
+} from 'y-prosemirror';
+import { PhoenixYjsProvider, type CollaborationUser } from './yjs-provider';
+import { cursorColor } from './remote-cursors';
+import type { ExecutionResource } from '../api/execution-channel';
+
+export interface CollaborationOptions {
+  resource: ExecutionResource;
+  id: string;
+  user: { id?: string | null; name: string };
+}
+
+export interface CollaborationSession {
+  provider: PhoenixYjsProvider;
+  destroy(): void;
+}
+
+const FRAGMENT = 'default';
+
+const undoKeymapKey = new PluginKey('collaborationUndoKeymap');
+
+function caret(user: CollaborationUser): HTMLElement {
+  const el = document.createElement('span');
+  el.className = 'collaboration-cursor__caret';
+  el.style.cssText = `position: relative; margin: 0 -1px; border-left: 2px solid ${user.color}; pointer-events: none;`;
+
+  const label = document.createElement('span');
+  label.className = 'collaboration-cursor__label';
+  label.textContent = user.name;
+  label.style.cssText =
+    `position: absolute; bottom: 100%; left: -2px; padding: 0 4px; border-radius: 3px 3px 3px 0; ` +
+    `background: ${user.color}; color: #fff; font-size: 11px; line-height: 1.4; white-space: nowrap; user-select: none;`;
+  el.appendChild(label);
+  return el;
+}
+
+// Resolves once the fragment has content, e.g. from the client seeding the room
+function whenFilled(fragment: Y.XmlFragment): Promise<void> {
+  if (fragment.length > 0) return Promise.resolve();
+  return new Promise(resolve => {
+    const observer = () => {
+      if (fragment.length === 0) return;
+      fragment.unobserveDeep(observer);
+      resolve();
+    };
+    fragment.observeDeep(observer);
+  });
+}
+
+/**
+ * Start editing `editor` together with everyone else on the resource. The editor keeps its own
+ * content until the room has been synced; an empty room is seeded from it if the server grants
+ * this client the seeding, otherwise the editor is bound once the seeded content arrives.
+ */
+export function startCollaboration(editor: Editor, options: CollaborationOptions): CollaborationSession {
+  const doc = new Y.Doc();
+  const provider = new PhoenixYjsProvider(doc, options.resource, options.id, {
+    user: { name: options.user.name, color: cursorColor(options.user.id ?? options.user.name) }
+  });
+  const fragment = doc.getXmlFragment(FRAGMENT);
+  const plugins: Plugin[] = [];
+  let destroyed = false;
+
+  provider.whenSynced.then(async () => {
+    if (destroyed || editor.isDestroyed) return;
+
+    if (fragment.length === 0 && (await provider.claimSeed())) {
+      if (destroyed || editor.isDestroyed) return;
+      // First one here: the server copy of the document becomes the shared one
+      if (fragment.length === 0) prosemirrorToYXmlFragment(editor.state.doc, fragment);
+    } else {
+      await whenFilled(fragment);
+      if (destroyed || editor.isDestroyed) return;
+      provider.markHolding();
+    }
+
+    plugins.push(
+      ySyncPlugin(fragment),
+      yCursorPlugin(provider.awareness, { cursorBuilder: caret }),
+      yUndoPlugin(),
+      // Registered ahead of the editor's own history so undo only reverts local changes
+      new Plugin({
+        key: undoKeymapKey,
+        props: { handleKeyDown: keydownHandler({ 'Mod-z': undo, 'Mod-y': redo, 'Mod-Shift-z': redo }) }
+      })
+    );
+    plugins.forEach(plugin => editor.registerPlugin(plugin, (added, existing) => [added, ...existing]));
+  });
+
+  return {
+    provider,
+    destroy() {
+      if (destroyed) return;
+      destroyed = true;
+      if (!editor.isDestroyed && plugins.length > 0) {
+        editor.unregisterPlugin([ySyncPluginKey, yCursorPluginKey, yUndoPluginKey, undoKeymapKey]);
+      }
+      provider.destroy();
+      doc.destroy();
+    }
+  };
+}
@@ -0,0 +1,231 @@
+// Other users' carets and selections in a TipTap editor, driven by `selection_changed` and
+// `cursor_moved` on the resource's execution topic; names and idle state come from presence
+import type { Editor } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { channels, type ChannelClient, type PresenceEntry } from '../api/channels';
+import { executionPresence, joinExecution, type ExecutionResource, type PresenceMeta } from '../api/execution-channel';
+
+export interface RemoteCursor {
+  userId: string;
+  name: string;
+  color: string;
+  anchor: number;
+  head: number;
+  // Idle, stale or gone quiet: drawn dimmed without a label
+  faded: boolean;
+  updatedAt: number;
+}
+
+export interface RemoteCursorOptions {
+  resource?: ExecutionResource;
+  selfId?: string | null;
+  client?: ChannelClient;
+  // Minimum gap between our own selection pushes
+  throttleMs?: number;
+  // Fade a cursor that has not moved for this long
+  staleAfterMs?: number;
+}
+
+interface SelectionRange {
+  anchor: number;
+  head: number;
+}
+
+const COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d'];
+
+const cursorKey = new PluginKey<DecorationSet>('remoteCursors');
+
+export function cursorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return COLORS[Math.abs(hash) % COLORS.length];
+}
+
+function isRange(value: unknown): value is SelectionRange {
+  const range = value as SelectionRange | null;
+  return typeof range?.anchor === 'number' && typeof range?.head === 'number';
+}
+
+function caret(cursor: RemoteCursor): HTMLElement {
+  const el = document.createElement('span');
+  el.className = 'remote-cursor';
+  el.style.cssText =
+    `position: relative; margin: 0 -1px; border-left: 2px solid ${cursor.color}; pointer-events: none; ` +
+    `transition: opacity 0.3s; opacity: ${cursor.faded ? 0.35 : 1};`;
+
+  if (!cursor.faded) {
+    const label = document.createElement('span');
+    label.textContent = cursor.name;
+    label.style.cssText =
+      `position: absolute; bottom: 100%; left: -2px; padding: 0 4px; border-radius: 3px 3px 3px 0; ` +
+      `background: ${cursor.color}; color: #fff; font-size: 11px; line-height: 1.4; white-space: nowrap; user-select: none;`;
+    el.appendChild(label);
+  }
+  return el;
+}
+
+function decorate(doc: ProseMirrorNode, cursors: Iterable<RemoteCursor>): DecorationSet {
+  const size = doc.content.size;
+  const decorations: Decoration[] = [];
+
+  for (const cursor of cursors) {
+    const anchor = Math.min(Math.max(cursor.anchor, 0), size);
+    const head = Math.min(Math.max(cursor.head, 0), size);
+
+    if (anchor !== head) {
+      decorations.push(
+        Decoration.inline(Math.min(anchor, head), Math.max(anchor, head), {
+          class: 'remote-selection',
+          style: `background-color: ${cursor.color}${cursor.faded ? '1a' : '33'};`
+        })
+      );
+    }
+    decorations.push(
+      Decoration.widget(head, () => caret(cursor), {
+        key: `${cursor.userId}:${cursor.name}:${cursor.faded}`,
+        side: 10
+      })
+    );
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+function throttle<A extends unknown[]>(fn: (...args: A) => void, ms: number) {
+  let last = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending: A | null = null;
+
+  const run = () => {
+    timer = undefined;
+    last = Date.now();
+    if (pending) fn(...pending);
+    pending = null;
+  };
+
+  const throttled = (...args: A) => {
+    pending = args;
+    if (timer) return;
+    const wait = ms - (Date.now() - last);
+    if (wait <= 0) run();
+    else timer = setTimeout(run, wait);
+  };
+  throttled.cancel = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    pending = null;
+  };
+  return throttled;
+}
+
+/**
+ * Show other users' cursors in `editor` and share ours; returns a function that detaches everything
+ */
+export function attachRemoteCursors(editor: Editor, id: string, options: RemoteCursorOptions = {}): () => void {
+  const { resource = 'file', selfId = null, client = channels, throttleMs = 80, staleAfterMs = 30_000 } = options;
+  const handle = joinExecution(resource, id, client);
+  const cursors = new Map<string, RemoteCursor>();
+  let people = new Map<string, PresenceEntry<PresenceMeta>>();
+
+  editor.registerPlugin(
+    new Plugin<DecorationSet>({
+      key: cursorKey,
+      state: {
+        init: (_, state) => decorate(state.doc, cursors.values()),
+        apply(tr, decorations) {
+          if (tr.getMeta(cursorKey)) return decorate(tr.doc, cursors.values());
+          if (!tr.docChanged) return decorations;
+
+          // Keep remote positions anchored to the text they pointed at
+          for (const cursor of cursors.values()) {
+            cursor.anchor = tr.mapping.map(cursor.anchor);
+            cursor.head = tr.mapping.map(cursor.head);
+          }
+          return decorations.map(tr.mapping, tr.doc);
+        }
+      },
+      props: {
+        decorations: state => cursorKey.getState(state)
+      }
+    })
+  );
+
+  function redraw() {
+    if (editor.isDestroyed) return;
+    editor.view.dispatch(editor.state.tr.setMeta(cursorKey, true).setMeta('addToHistory', false));
+  }
+
+  function isFaded(userId: string, updatedAt: number): boolean {
+    const metas = people.get(userId)?.metas ?? [];
+    const idle = metas.length > 0 && metas.every(meta => meta.status === 'idle');
+    return idle || Date.now() - updatedAt > staleAfterMs;
+  }
+
+  function move(userId: string, range: SelectionRange) {
+    if (userId === selfId) return;
+    const updatedAt = Date.now();
+    cursors.set(userId, {
+      userId,
+      name: people.get(userId)?.metas[0]?.user?.name ?? 'Someone',
+      color: cursorColor(userId),
+      anchor: range.anchor,
+      head: range.head,
+      faded: isFaded(userId, updatedAt),
+      updatedAt
+    });
+    redraw();
+  }
+
+  handle.on('selection_changed', ({ user_id, range }) => {
+    if (isRange(range)) move(user_id, range);
+  });
+  handle.on('cursor_moved', ({ user_id, position }) => {
+    if (typeof position === 'number') move(user_id, { anchor: position, head: position });
+  });
+
+  const unsubscribePresence = executionPresence(resource, id, client).subscribe(entries => {
+    // Nothing synced yet; an empty list would wipe every cursor
+    if (entries.length === 0) return;
+    people = new Map(entries.map(entry => [entry.key, entry]));
+
+    for (const [userId, cursor] of cursors) {
+      if (!people.has(userId)) {
+        cursors.delete(userId);
+        continue;
+      }
+      cursor.name = people.get(userId)?.metas[0]?.user?.name ?? cursor.name;
+      cursor.faded = isFaded(userId, cursor.updatedAt);
+    }
+    redraw();
+  });
+
+  const staleTimer = setInterval(() => {
+    let changed = false;
+    for (const cursor of cursors.values()) {
+      const faded = isFaded(cursor.userId, cursor.updatedAt);
+      changed ||= faded !== cursor.faded;
+      cursor.faded = faded;
+    }
+    if (changed) redraw();
+  }, 5_000);
+
+  const share = throttle(() => {
+    if (editor.isDestroyed || !editor.isFocused) return;
+    const { anchor, head } = editor.state.selection;
+    handle.send('selection_change', { range: { anchor, head } });
+  }, throttleMs);
+
+  editor.on('selectionUpdate', share);
+  editor.on('focus', share);
+
+  return () => {
+    share.cancel();
+    clearInterval(staleTimer);
+    unsubscribePresence();
+    editor.off('selectionUpdate', share);
+    editor.off('focus', share);
+    handle.leave();
+    if (!editor.isDestroyed) editor.unregisterPlugin(cursorKey);
+  };
+}
@@ -0,0 +1,95 @@
+// IndexedDB copy of each shared document. It is only restored when the room cannot be joined:
+// a copy cached from an earlier session may come from a different seeding of the document, and
+// merging it into the room would duplicate the content.
+import * as Y from 'yjs';
+
+const DB_NAME = 'kyozo-yjs';
+const STORE = 'documents';
+const SAVE_DELAY_MS = 500;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+function open(): Promise<IDBDatabase | null> {
+  if (database) return database;
+  if (typeof indexedDB === 'undefined') return (database = Promise.resolve(null));
+
+  database = new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Document cache unavailable, offline edits will not survive a reload:', request.error);
+      resolve(null);
+    };
+  });
+  return database;
+}
+
+/**
+ * Keeps `doc` mirrored under `name`
+ */
+export class YjsCache {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  constructor(private name: string, private doc: Y.Doc) {
+    doc.on('update', this.schedule);
+  }
+
+  /**
+   * Apply the cached state to the document
+   */
+  async restore() {
+    const db = await open();
+    if (!db) return;
+    try {
+      const state = await promisify<Uint8Array | undefined>(db.transaction(STORE, 'readonly').objectStore(STORE).get(this.name));
+      if (state && !this.destroyed) Y.applyUpdate(this.doc, state, this);
+    } catch (e) {
+      console.warn('Could not read cached document:', e);
+    }
+  }
+
+  private schedule = (_update: Uint8Array, origin: unknown) => {
+    if (origin === this || this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  };
+
+  // The whole state is stored rather than a log of updates; documents are small and it keeps reads to one get
+  async save() {
+    const db = await open();
+    if (!db) return;
+    try {
+      await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(Y.encodeStateAsUpdate(this.doc), this.name));
+    } catch (e) {
+      console.warn('Could not cache document:', e);
+    }
+  }
+
+  async clear() {
+    const db = await open();
+    if (db) await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(this.name));
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.doc.off('update', this.schedule);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.save();
+    }
+  }
+}
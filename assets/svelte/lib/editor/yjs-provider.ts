@@ -0,0 +1,213 @@
+// Yjs provider over the resource's execution topic. The server only relays: peers exchange state
+// vectors on join (`yjs_sync`/`yjs_sync_reply`), then stream incremental updates and awareness.
+// An empty room is seeded by the one client the server grants it to (`yjs_seed`).
+// Binary payloads travel base64 encoded since the socket speaks JSON.
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import { derived, get, writable, type Readable } from 'svelte/store';
+import { channels, type ChannelClient, type ChannelHandle, type ChannelState } from '../api/channels';
+import { executionTopic, type ExecutionResource } from '../api/execution-channel';
+import { YjsCache } from './yjs-cache';
+
+// Without a reply in this window we are the first one in the room
+const SYNC_TIMEOUT_MS = 1_500;
+
+interface YjsEvents {
+  yjs_update: { update: string; user_id: string };
+  yjs_sync: { peer: string; state_vector: string; user_id: string };
+  yjs_sync_reply: { to: string; state_vector: string; update: string; user_id: string };
+  yjs_awareness: { update: string; user_id: string };
+}
+
+interface YjsPushes {
+  yjs_update: { payload: { update: string }; reply: never };
+  yjs_sync: { payload: { peer: string; state_vector: string }; reply: never };
+  yjs_sync_reply: { payload: { to: string; state_vector: string; update: string }; reply: never };
+  yjs_awareness: { payload: { update: string }; reply: never };
+  yjs_seed: { payload: Record<string, never>; reply: { granted: boolean } };
+  yjs_holding: { payload: Record<string, never>; reply: never };
+}
+
+export interface CollaborationUser {
+  name: string;
+  color: string;
+}
+
+export interface YjsProviderOptions {
+  user: CollaborationUser;
+  client?: ChannelClient;
+  // Keep an IndexedDB copy, used when the room cannot be joined
+  cache?: boolean;
+}
+
+export interface YjsProviderState {
+  status: 'connecting' | 'connected' | 'offline';
+  // Initial exchange with the room (or the local cache when offline) is done
+  synced: boolean;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function peerId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export class PhoenixYjsProvider implements Readable<YjsProviderState> {
+  readonly awareness: Awareness;
+  readonly whenSynced: Promise<void>;
+
+  private handle: ChannelHandle<YjsEvents, YjsPushes>;
+  private cache: YjsCache | null;
+  private peer = peerId();
+  private synced = writable(false);
+  private joined = writable<ChannelState['status']>('joining');
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private markSynced: () => void = () => {};
+  private unsubscribeState: () => void;
+  private destroyed = false;
+
+  subscribe: Readable<YjsProviderState>['subscribe'];
+
+  constructor(readonly doc: Y.Doc, resource: ExecutionResource, id: string, options: YjsProviderOptions) {
+    const { user, client = channels, cache = true } = options;
+
+    this.awareness = new Awareness(doc);
+    this.awareness.setLocalStateField('user', user);
+    this.cache = cache ? new YjsCache(`${resource}:${id}`, doc) : null;
+    this.whenSynced = new Promise(resolve => (this.markSynced = resolve));
+    this.subscribe = derived([this.joined, this.synced], ([$joined, $synced]): YjsProviderState => ({
+      status: $joined === 'joined' ? 'connected' : $joined === 'joining' ? 'connecting' : 'offline',
+      synced: $synced
+    })).subscribe;
+
+    this.handle = client.join<YjsEvents, YjsPushes>(executionTopic(resource, id));
+    this.handle.on('yjs_update', ({ update }) => Y.applyUpdate(doc, fromBase64(update), this));
+    this.handle.on('yjs_sync', ({ peer, state_vector }) => {
+      if (peer === this.peer) return;
+      this.handle.send('yjs_sync_reply', {
+        to: peer,
+        state_vector: toBase64(Y.encodeStateVector(doc)),
+        update: toBase64(Y.encodeStateAsUpdate(doc, fromBase64(state_vector)))
+      });
+      this.sendAwareness([doc.clientID]);
+    });
+    this.handle.on('yjs_sync_reply', ({ to, state_vector, update }) => {
+      if (to !== this.peer) return;
+      Y.applyUpdate(doc, fromBase64(update), this);
+      // Hand back whatever the peer is missing, typically our offline edits
+      const missing = Y.encodeStateAsUpdate(doc, fromBase64(state_vector));
+      if (missing.length > 2) this.handle.send('yjs_update', { update: toBase64(missing) });
+      this.finishSync();
+    });
+    this.handle.on('yjs_awareness', ({ update }) => applyAwarenessUpdate(this.awareness, fromBase64(update), this));
+
+    doc.on('update', this.onDocUpdate);
+    this.awareness.on('update', this.onAwarenessUpdate);
+
+    this.unsubscribeState = this.handle.state.subscribe(state => {
+      this.joined.set(state.status);
+      if (state.status === 'joined') this.startSync();
+      // No room to join: the cached copy is as synced as we can get
+      else if (state.status === 'failed') (this.cache?.restore() ?? Promise.resolve()).then(() => this.finishSync());
+    });
+
+    if (typeof window !== 'undefined') window.addEventListener('beforeunload', this.leaveAwareness);
+  }
+
+  private onDocUpdate = (update: Uint8Array, origin: unknown) => {
+    // Remote and cached updates are already known to the room
+    if (origin === this || origin === this.cache) return;
+    this.handle.send('yjs_update', { update: toBase64(update) });
+  };
+
+  private onAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin !== this) this.sendAwareness([...added, ...updated, ...removed]);
+  };
+
+  private sendAwareness(clients: number[]) {
+    if (clients.length > 0) this.handle.send('yjs_awareness', { update: toBase64(encodeAwarenessUpdate(this.awareness, clients)) });
+  }
+
+  private startSync() {
+    if (this.destroyed) return;
+    this.handle.send('yjs_sync', { peer: this.peer, state_vector: toBase64(Y.encodeStateVector(this.doc)) });
+    this.sendAwareness([this.doc.clientID]);
+
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    // Nobody answered: we are alone and our copy is the room's copy
+    this.syncTimer = setTimeout(() => this.finishSync(), SYNC_TIMEOUT_MS);
+  }
+
+  private finishSync() {
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.syncTimer = null;
+    this.synced.set(true);
+    this.markSynced();
+  }
+
+  private leaveAwareness = () => {
+    removeAwarenessStates(this.awareness, [this.doc.clientID], 'local');
+  };
+
+  /**
+   * Ask to write the initial content of an empty room. Granted to one client only; the others
+   * receive the content from it. Without a room (join failed) there is nobody to conflict with.
+   */
+  async claimSeed(): Promise<boolean> {
+    const status = get(this.joined);
+    if (status === 'failed') return true;
+    if (status !== 'joined') return false;
+    try {
+      return (await this.handle.push('yjs_seed', {})).granted;
+    } catch (e) {
+      console.warn('Could not claim seeding of the shared document:', e);
+      return false;
+    }
+  }
+
+  /**
+   * Tell the room this client has the document, so nobody seeds it again
+   */
+  markHolding() {
+    if (get(this.joined) === 'joined') this.handle.send('yjs_holding', {});
+  }
+
+  /**
+   * Drop the local cached copy, e.g. after the document was deleted
+   */
+  clearCache(): Promise<void> {
+    return this.cache?.clear() ?? Promise.resolve();
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    if (typeof window !== 'undefined') window.removeEventListener('beforeunload', this.leaveAwareness);
+    this.leaveAwareness();
+    this.unsubscribeState();
+    this.doc.off('update', this.onDocUpdate);
+    this.awareness.off('update', this.onAwarenessUpdate);
+    this.awareness.destroy();
+    this.cache?.destroy();
+    this.handle.leave();
+  }
+}
@@ -1,6 +1,7 @@
 import { storageAPI } from '$lib/api/storage';
 import type { VFSListing, VFSContent, FileSystemItem } from '$lib/types/storage';
 import { createFileSystemItem } from '$lib/types/storage';
+import { isCancellation } from '$lib/api/errors';
 
 interface FileBrowserState {
   listing: VFSListing | null;
@@ -19,28 +20,42 @@ export function createFileBrowserStore() {
     virtualContent: null
   });
 
+  // Navigating again aborts the previous listing so a slow response can't overwrite a newer one
+  let directoryRequest: AbortController | null = null;
+  let fileRequest: AbortController | null = null;
+
   async function loadDirectory(teamId: string, workspaceId: string, path: string = '/') {
+    directoryRequest?.abort();
+    const request = directoryRequest = new AbortController();
     state.loading = true;
     state.error = null;
     
     try {
-      const listing = await storageAPI.listVFS(teamId, workspaceId, path);
+      const listing = await storageAPI.listVFS(teamId, workspaceId, path, request.signal);
       state.listing = listing;
     } catch (error) {
+      if (isCancellation(error)) return;
       state.error = error as Error;
       console.error('Failed to load directory:', error);
     } finally {
-      state.loading = false;
+      if (directoryRequest === request) {
+        state.loading = false;
+        directoryRequest = null;
+      }
     }
   }
 
   async function readVirtualFile(teamId: string, workspaceId: string, path: string) {
+    fileRequest?.abort();
+    const request = fileRequest = new AbortController();
+
     try {
-      const content = await storageAPI.readVirtualFile(teamId, workspaceId, path);
+      const content = await storageAPI.readVirtualFile(teamId, workspaceId, path, request.signal);
       state.virtualContent = content;
       state.selectedPath = path;
       return content;
     } catch (error) {
+      if (isCancellation(error)) return null;
       state.error = error as Error;
       console.error('Failed to read virtual file:', error);
       return null;
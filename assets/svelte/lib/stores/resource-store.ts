@@ -0,0 +1,254 @@
+// List stores for API resources: cached loading through the query cache, plus optimistic
+// create/update/delete that roll back (and report) when the server rejects the change
+import { derived, get, writable, type Readable } from 'svelte/store';
+import type { ApiError, ApiResponse, ApiState } from '../../types';
+import type { ApiService } from '../../services/api';
+import { queryCache } from '../api/query-cache';
+import { toApiError, isCancellation } from '../api/errors';
+import { entities, resolveList, type EntityKind, type EntityMap } from '../api/entities';
+
+export type PendingMutation = 'create' | 'update' | 'delete';
+
+export interface ResourceState<T> extends ApiState<T[]> {
+  // Items with a mutation in flight, by id (temporary ids for creates)
+  pending: Record<string, PendingMutation>;
+}
+
+export interface LoadOptions {
+  // Bypass fresh cached data and always hit the API
+  force?: boolean;
+}
+
+export interface ResourceStoreConfig<T extends { id: string }, CreateReq, UpdateReq> {
+  // Singular, for error messages: 'workspace'
+  label: string;
+  // Items are read through the entity cache, so edits made anywhere show up in the list
+  entity?: EntityKind;
+  // Cache key prefix of the lists to refetch after a mutation
+  cacheKey: (api: ApiService) => string;
+  create?: (api: ApiService, data: CreateReq) => Promise<ApiResponse<T>>;
+  // `previous` is the item as it was before the optimistic change
+  update?: (api: ApiService, id: string, data: UpdateReq, previous: T | undefined) => Promise<ApiResponse<T>>;
+  remove?: (api: ApiService, id: string) => Promise<unknown>;
+  // Placeholder shown until the server returns the created item
+  draft?: (data: CreateReq, id: string) => T;
+  // Optimistic result of an update
+  apply?: (item: T, data: UpdateReq) => T;
+  // Called with a user-facing message whenever a change is rolled back
+  onError?: (message: string, error: ApiError) => void;
+}
+
+export interface ResourceStore<T extends { id: string }, CreateReq, UpdateReq> extends Readable<ResourceState<T>> {
+  fetch(key: string, fetcher: () => Promise<T[]>, options?: LoadOptions): Promise<void>;
+  create(api: ApiService, data: CreateReq): Promise<T>;
+  update(api: ApiService, id: string, data: UpdateReq): Promise<T>;
+  delete(api: ApiService, id: string): Promise<void>;
+  find(id: string): T | undefined;
+  // Local edits for bulk results and server-driven changes; nothing is sent
+  patch(id: string, changes: Partial<T>): void;
+  replace(items: Map<string, T>): void;
+  remove(ids: Set<string>): void;
+  isPending(id: string): boolean;
+  reset(): void;
+}
+
+let tempIds = 0;
+
+const initialState = <T>(): ResourceState<T> => ({
+  data: [],
+  status: 'idle',
+  error: undefined,
+  pending: {}
+});
+
+export function createResourceStore<T extends { id: string }, CreateReq = Partial<T>, UpdateReq = Partial<T>>(
+  config: ResourceStoreConfig<T, CreateReq, UpdateReq>
+): ResourceStore<T, CreateReq, UpdateReq> {
+  const state = writable<ResourceState<T>>(initialState());
+  const { set, update } = state;
+  const { entity } = config;
+  let unwatch: (() => void) | null = null;
+
+  const subscribe: Readable<ResourceState<T>>['subscribe'] = entity
+    ? derived([state, entities], ([$state, tables]) => ({
+        ...$state,
+        data: resolveList(tables, entity, $state.data || [])
+      })).subscribe
+    : state.subscribe;
+
+  const items = () => get(state).data || [];
+
+  function find(id: string): T | undefined {
+    const cached = entity ? (entities.get(entity, id) as unknown as T | undefined) : undefined;
+    return cached ?? items().find(item => item.id === id);
+  }
+
+  // Optimistic edits go to the entity cache too, so other views of the item follow along
+  function cache(item: T) {
+    if (entity) entities.write(entity, item as Partial<EntityMap[EntityKind]>);
+  }
+
+  function setItems(updater: (data: T[]) => T[]) {
+    update(state => ({ ...state, data: updater(state.data || []) }));
+  }
+
+  function setPending(id: string, mutation: PendingMutation | null) {
+    update(state => {
+      const pending = { ...state.pending };
+      if (mutation) pending[id] = mutation;
+      else delete pending[id];
+      return { ...state, pending };
+    });
+  }
+
+  // Report and rethrow; callers still decide what to do with the failure
+  function fail(action: string, error: unknown): never {
+    const apiError = toApiError(error);
+    config.onError?.(`Could not ${action} ${config.label}: ${apiError.message}`, apiError);
+    throw error;
+  }
+
+  function settled(api: ApiService) {
+    queryCache.invalidate(config.cacheKey(api));
+  }
+
+  return {
+    subscribe,
+
+    /**
+     * Serve cached data immediately and follow query cache revalidations of `key`
+     */
+    async fetch(key: string, fetcher: () => Promise<T[]>, options: LoadOptions = {}) {
+      unwatch?.();
+      unwatch = queryCache.watch<T[]>(key, data => {
+        update(state => ({ ...state, data, status: 'success', error: undefined, lastFetch: new Date() }));
+      });
+
+      const cached = queryCache.peek<T[]>(key);
+      if (cached) {
+        update(state => ({ ...state, data: cached.data, status: 'success', error: undefined, lastFetch: new Date(cached.updatedAt) }));
+      } else {
+        update(state => ({ ...state, status: 'loading' }));
+      }
+
+      try {
+        await queryCache.fetch(key, fetcher, options);
+      } catch (error) {
+        // A newer load superseded this one; let it settle the state
+        if (isCancellation(error)) return;
+        update(state => ({
+          ...state,
+          data: cached?.data ?? [],
+          status: 'error',
+          error: toApiError(error),
+          lastFetch: new Date()
+        }));
+      }
+    },
+
+    async create(api: ApiService, data: CreateReq) {
+      if (!config.create) throw new Error(`Creating a ${config.label} is not supported`);
+
+      const tempId = `temp-${++tempIds}`;
+      const placeholder = config.draft?.(data, tempId) ?? ({ ...data, id: tempId } as unknown as T);
+      setItems(list => [...list, placeholder]);
+      setPending(tempId, 'create');
+
+      try {
+        const response = await config.create(api, data);
+        setItems(list => list.map(item => (item.id === tempId ? response.data : item)));
+        settled(api);
+        return response.data;
+      } catch (error) {
+        setItems(list => list.filter(item => item.id !== tempId));
+        fail('create', error);
+      } finally {
+        setPending(tempId, null);
+      }
+    },
+
+    async update(api: ApiService, id: string, data: UpdateReq) {
+      if (!config.update) throw new Error(`Updating a ${config.label} is not supported`);
+
+      const previous = items().find(item => item.id === id);
+      const apply = config.apply ?? ((item: T, changes: UpdateReq) => ({ ...item, ...changes }) as T);
+      const current = find(id);
+      if (current) {
+        const optimistic = apply(current, data);
+        setItems(list => list.map(item => (item.id === id ? optimistic : item)));
+        cache(optimistic);
+      }
+      setPending(id, 'update');
+
+      try {
+        const response = await config.update(api, id, data, current);
+        // A queued offline edit only echoes the changes back
+        setItems(list => list.map(item => (item.id === id ? (response.queued ? { ...item, ...response.data } : response.data) : item)));
+        if (response.queued) cache(response.data);
+        settled(api);
+        return response.data;
+      } catch (error) {
+        // Put back only this item; other changes made meanwhile stay
+        if (previous) setItems(list => list.map(item => (item.id === id ? previous : item)));
+        if (current) cache(current);
+        fail('update', error);
+      } finally {
+        setPending(id, null);
+      }
+    },
+
+    async delete(api: ApiService, id: string) {
+      if (!config.remove) throw new Error(`Deleting a ${config.label} is not supported`);
+
+      const index = items().findIndex(item => item.id === id);
+      const removed = index >= 0 ? items()[index] : undefined;
+      setItems(list => list.filter(item => item.id !== id));
+      setPending(id, 'delete');
+
+      try {
+        await config.remove(api, id);
+        if (entity) entities.remove(entity, id);
+        settled(api);
+      } catch (error) {
+        if (removed) {
+          setItems(list => {
+            if (list.some(item => item.id === id)) return list;
+            const restored = [...list];
+            restored.splice(Math.min(index, restored.length), 0, removed);
+            return restored;
+          });
+        }
+        fail('delete', error);
+      } finally {
+        setPending(id, null);
+      }
+    },
+
+    find,
+
+    patch(id: string, changes: Partial<T>) {
+      setItems(list => list.map(item => (item.id === id ? { ...item, ...changes } : item)));
+      if (entity) entities.write(entity, { id, ...changes } as Partial<EntityMap[EntityKind]>);
+    },
+
+    replace(updated: Map<string, T>) {
+      setItems(list => list.map(item => updated.get(item.id) ?? item));
+      updated.forEach(cache);
+    },
+
+    remove(ids: Set<string>) {
+      setItems(list => list.filter(item => !ids.has(item.id)));
+      if (entity) ids.forEach(id => entities.remove(entity, id));
+    },
+
+    isPending(id: string) {
+      return id in get(state).pending;
+    },
+
+    reset() {
+      unwatch?.();
+      unwatch = null;
+      set(initialState());
+    }
+  };
+}
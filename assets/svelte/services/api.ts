@@ -0,0 +1,728 @@
+// Typed client for the Phoenix /api/v1 routes
+import { HttpClient } from '../lib/api/client';
+import { BatchExecutor, type BatchOperationInput } from '../lib/api/batch';
+import { validate, validateList, type EntityTypes } from '../lib/api/validation';
+import type { EntityName } from '../lib/api/schemas';
+import { offlineQueue, type EntityVersion } from '../lib/api/offline-queue';
+import { entities, type EntityKind, type EntityMap } from '../lib/api/entities';
+import type {
+  ApiResponse,
+  User,
+  Team,
+  UserTeam,
+  TeamInvitation,
+  Workspace,
+  WorkspaceStatistics,
+  WorkspaceStorageInfo,
+  Document,
+  DocumentVersion,
+  Notebook,
+  NotebookTasksResponse,
+  WorkspaceTasksResponse,
+  Notification,
+  SearchResult,
+  QueryParams,
+  ApiConfig,
+  ApiRequestOptions,
+  CreateTeamRequest,
+  UpdateTeamRequest,
+  InviteTeamMemberRequest,
+  CreateWorkspaceRequest,
+  UpdateWorkspaceRequest,
+  DuplicateWorkspaceRequest,
+  ChangeStorageBackendRequest,
+  CreateDocumentRequest,
+  UpdateDocumentRequest,
+  UpdateDocumentContentRequest,
+  DuplicateDocumentRequest,
+  RenderDocumentRequest,
+  RenameDocumentRequest,
+  CreateNotebookRequest,
+  UpdateNotebookRequest,
+  ExecuteNotebookRequest,
+  ExecuteTaskRequest,
+  DuplicateNotebookRequest,
+  SearchRequest,
+  DashboardStatsResponse,
+  ActivityResponse,
+  UpdateProfileRequest,
+  ChangePasswordRequest,
+  NotificationResponse,
+  TeamRole
+} from '../types';
+import type {
+  ContainerService,
+  ContainerLogs,
+  CreateServiceRequest,
+  UpdateServiceRequest,
+  ServiceMetrics,
+  ServiceStatusInfo,
+  TopologyAnalysis
+} from '../types/containers';
+import type { AsyncScanJob, ScanOptions, ScanReport } from '../types/scan';
+
+export type { ApiConfig } from '../types';
+
+export interface ServiceHealthResponse {
+  service_id: string;
+  overall_status: string;
+  last_health_check?: any;
+  [key: string]: any;
+}
+
+export interface ScanRequest extends ScanOptions {
+  content: string;
+}
+
+export interface BulkResult<T = void> {
+  succeeded: { id: string; data: T }[];
+  failed: { id: string; error: unknown }[];
+}
+
+function cacheWriter<K extends EntityKind>(kind: K) {
+  return (data: EntityMap[K] | EntityMap[K][]) => entities.write(kind, data);
+}
+
+// Validated payloads of the kinds the entity cache keeps are written through to it
+const cacheWriters: { [K in EntityName]: (data: EntityTypes[K] | EntityTypes[K][]) => void } = {
+  User: cacheWriter('User'),
+  Team: cacheWriter('Team'),
+  Workspace: cacheWriter('Workspace'),
+  Document: cacheWriter('Document'),
+  Notebook: cacheWriter('Notebook'),
+  NotebookTask: cacheWriter('NotebookTask'),
+  UserTeam: () => {},
+  TeamInvitation: () => {},
+  ContainerService: () => {},
+  TopologyAnalysis: () => {}
+};
+
+export class ApiService {
+  private http: HttpClient;
+  private batcher: BatchExecutor;
+  private teamId?: string;
+
+  constructor(config: ApiConfig) {
+    this.http = new HttpClient(config.baseUrl, {
+      apiToken: config.apiToken,
+      csrfToken: config.csrfToken
+    });
+    this.batcher = new BatchExecutor(this.http);
+    this.teamId = config.teamId || undefined;
+  }
+
+  // Team scope used by the /teams/:team_id/... routes
+  getTeamId(): string | undefined {
+    return this.teamId;
+  }
+
+  setTeamId(teamId: string | undefined) {
+    this.teamId = teamId || undefined;
+  }
+
+  private teamPath(path: string, teamId: string | undefined = this.teamId): string {
+    if (!teamId) {
+      throw new Error('No team selected for team-scoped API request');
+    }
+    return `/teams/${teamId}${path}`;
+  }
+
+  // The API wraps every payload in `{ data: ... }`; unwrap it for callers
+  private async unwrap<T>(request: Promise<{ data: any; status: number }>): Promise<ApiResponse<T>> {
+    const response = await request;
+    const body = response.data;
+    const isEnvelope = body !== null && typeof body === 'object' && 'data' in body;
+
+    return {
+      data: (isEnvelope ? body.data : body) as T,
+      message: isEnvelope ? body.message : undefined,
+      status: response.status,
+      meta: isEnvelope ? body.meta : undefined,
+      links: isEnvelope ? body.links : undefined
+    };
+  }
+
+  // Entity payloads are checked against lib/api/schemas before reaching the stores, and land in
+  // the normalized entity cache so every view of the entity stays current
+  private async one<K extends EntityName>(entity: K, request: Promise<ApiResponse<unknown>>): Promise<ApiResponse<EntityTypes[K]>> {
+    const response = await request;
+    const data = validate(entity, response.data);
+    cacheWriters[entity](data);
+    return { ...response, data };
+  }
+
+  private async many<K extends EntityName>(entity: K, request: Promise<ApiResponse<unknown>>): Promise<ApiResponse<EntityTypes[K][]>> {
+    const response = await request;
+    const data = validateList(entity, response.data);
+    cacheWriters[entity](data);
+    return { ...response, data };
+  }
+
+  // The task routes wrap their list with the id of its owner
+  private async field<T, F extends keyof T>(request: Promise<ApiResponse<T>>, key: F): Promise<ApiResponse<T[F] | undefined>> {
+    const response = await request;
+    return { ...response, data: response.data?.[key] };
+  }
+
+  // Request cancellation by scope (see ApiRequestOptions.scope)
+  cancel(scope: string) {
+    this.http.cancel(scope);
+  }
+
+  cancelAll() {
+    this.http.cancelAll();
+  }
+
+  // Operations queued in the same tick are sent as one batch call
+  batch<T = any>(operation: BatchOperationInput): Promise<ApiResponse<T>> {
+    return this.unwrap<T>(this.batcher.enqueue(operation));
+  }
+
+  private async bulk<T>(ids: string[], operation: (id: string) => BatchOperationInput): Promise<BulkResult<T>> {
+    const settled = await Promise.allSettled(ids.map(id => this.batch<T>(operation(id))));
+    const result: BulkResult<T> = { succeeded: [], failed: [] };
+
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        result.succeeded.push({ id: ids[i], data: outcome.value.data });
+      } else {
+        result.failed.push({ id: ids[i], error: outcome.reason });
+      }
+    });
+    return result;
+  }
+
+  // Raw HTTP helpers for routes without a dedicated method
+  get<T = any>(url: string, params?: Record<string, any>, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.unwrap<T>(this.http.get(url, { ...options, params }));
+  }
+
+  post<T = any>(url: string, data?: any, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.unwrap<T>(this.http.post(url, data, options));
+  }
+
+  put<T = any>(url: string, data?: any, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.unwrap<T>(this.http.put(url, data, options));
+  }
+
+  patch<T = any>(url: string, data?: any, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.unwrap<T>(this.http.patch(url, data, options));
+  }
+
+  delete<T = any>(url: string, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.unwrap<T>(this.http.delete(url, options));
+  }
+
+  // Teams
+  listTeams(options?: ApiRequestOptions) {
+    return this.many('Team', this.get<Team[]>('/teams', undefined, options));
+  }
+
+  getTeam(id: string) {
+    return this.one('Team', this.get<Team>(`/teams/${id}`));
+  }
+
+  createTeam(team: CreateTeamRequest) {
+    return this.one('Team', this.post<Team>('/teams', { team }));
+  }
+
+  updateTeam(id: string, team: UpdateTeamRequest) {
+    return this.one('Team', this.patch<Team>(`/teams/${id}`, { team }));
+  }
+
+  deleteTeam(id: string) {
+    return this.delete<void>(`/teams/${id}`);
+  }
+
+  listTeamMembers(teamId: string) {
+    return this.many('UserTeam', this.get<UserTeam[]>(`/teams/${teamId}/members`));
+  }
+
+  inviteTeamMember(teamId: string, invitation: InviteTeamMemberRequest) {
+    return this.post<TeamInvitation>(`/teams/${teamId}/members`, { invitation });
+  }
+
+  removeTeamMember(teamId: string, memberId: string) {
+    return this.delete<void>(`/teams/${teamId}/members/${memberId}`);
+  }
+
+  updateMemberRole(teamId: string, memberId: string, role: TeamRole) {
+    return this.patch<UserTeam>(`/teams/${teamId}/members/${memberId}/role`, { role });
+  }
+
+  listTeamInvitations(teamId: string) {
+    return this.many('TeamInvitation', this.get<TeamInvitation[]>(`/teams/${teamId}/invitations`));
+  }
+
+  acceptInvitation(teamId: string, invitationId: string) {
+    return this.post<TeamInvitation>(`/teams/${teamId}/invitations/${invitationId}/accept`);
+  }
+
+  declineInvitation(teamId: string, invitationId: string) {
+    return this.post<TeamInvitation>(`/teams/${teamId}/invitations/${invitationId}/decline`);
+  }
+
+  cancelInvitation(teamId: string, invitationId: string) {
+    return this.delete<void>(`/teams/${teamId}/invitations/${invitationId}`);
+  }
+
+  // Workspaces
+  listWorkspaces(params?: QueryParams & { status?: Workspace['status'] }, options?: ApiRequestOptions) {
+    return this.many('Workspace', this.get<Workspace[]>(this.teamPath('/workspaces'), params, options));
+  }
+
+  getWorkspace(id: string) {
+    return this.one('Workspace', this.get<Workspace>(this.teamPath(`/workspaces/${id}`)));
+  }
+
+  createWorkspace(workspace: CreateWorkspaceRequest) {
+    return this.one('Workspace', this.post<Workspace>(this.teamPath('/workspaces'), { workspace }));
+  }
+
+  updateWorkspace(id: string, workspace: UpdateWorkspaceRequest) {
+    return this.one('Workspace', this.patch<Workspace>(this.teamPath(`/workspaces/${id}`), { workspace }));
+  }
+
+  deleteWorkspace(id: string) {
+    return this.delete<void>(this.teamPath(`/workspaces/${id}`));
+  }
+
+  deleteWorkspaces(ids: string[]) {
+    return this.bulk<void>(ids, id => ({ method: 'DELETE', endpoint: this.teamPath(`/workspaces/${id}`) }));
+  }
+
+  archiveWorkspaces(ids: string[]) {
+    return this.bulk<Workspace>(ids, id => ({ method: 'POST', endpoint: this.teamPath(`/workspaces/${id}/archive`) }));
+  }
+
+  archiveWorkspace(id: string) {
+    return this.one('Workspace', this.post<Workspace>(this.teamPath(`/workspaces/${id}/archive`)));
+  }
+
+  restoreWorkspace(id: string) {
+    return this.one('Workspace', this.post<Workspace>(this.teamPath(`/workspaces/${id}/restore`)));
+  }
+
+  duplicateWorkspace(id: string, options: DuplicateWorkspaceRequest) {
+    return this.one(
+      'Workspace',
+      this.post<Workspace>(this.teamPath(`/workspaces/${id}/duplicate`), { options })
+    );
+  }
+
+  getWorkspaceStatistics(id: string) {
+    return this.get<WorkspaceStatistics>(this.teamPath(`/workspaces/${id}/statistics`));
+  }
+
+  getWorkspaceStorage(id: string) {
+    return this.get<WorkspaceStorageInfo>(this.teamPath(`/workspaces/${id}/storage`));
+  }
+
+  changeStorageBackend(id: string, backend: ChangeStorageBackendRequest) {
+    return this.patch<Workspace>(this.teamPath(`/workspaces/${id}/storage`), { backend });
+  }
+
+  listWorkspaceFiles(id: string) {
+    return this.many('Document', this.get<Document[]>(this.teamPath(`/workspaces/${id}/files`)));
+  }
+
+  listWorkspaceNotebooks(id: string) {
+    return this.many('Notebook', this.get<Notebook[]>(this.teamPath(`/workspaces/${id}/notebooks`)));
+  }
+
+  listWorkspaceTasks(id: string) {
+    return this.many(
+      'NotebookTask',
+      this.field(this.get<WorkspaceTasksResponse>(this.teamPath(`/workspaces/${id}/tasks`)), 'tasks')
+    );
+  }
+
+  listWorkspaceServices(id: string) {
+    return this.many(
+      'ContainerService',
+      this.get<ContainerService[]>(this.teamPath(`/workspaces/${id}/services`))
+    );
+  }
+
+  deployService(workspaceId: string, service: Partial<CreateServiceRequest>) {
+    return this.post<ContainerService>(
+      this.teamPath(`/workspaces/${workspaceId}/services`),
+      { service },
+      { idempotencyKey: true }
+    );
+  }
+
+  analyzeTopology(workspaceId: string, folderPath: string = '/') {
+    return this.one(
+      'TopologyAnalysis',
+      this.post<TopologyAnalysis>(this.teamPath(`/workspaces/${workspaceId}/analyze`), { folder_path: folderPath })
+    );
+  }
+
+  // Files (exposed to the UI as documents)
+  listDocuments(workspaceId?: string, params?: QueryParams, options?: ApiRequestOptions) {
+    return this.many(
+      'Document',
+      this.get<Document[]>(this.teamPath('/files'), { ...params, workspace_id: workspaceId }, options)
+    );
+  }
+
+  getDocument(id: string) {
+    return this.one('Document', this.get<Document>(this.teamPath(`/files/${id}`)));
+  }
+
+  createDocument(file: CreateDocumentRequest) {
+    return this.one('Document', this.post<Document>(this.teamPath('/files'), { file }));
+  }
+
+  // `base` is the version the edit started from; it lets an offline replay detect conflicts
+  updateDocument(id: string, file: UpdateDocumentRequest, base?: EntityVersion) {
+    const path = this.teamPath(`/files/${id}`);
+    return offlineQueue.submit<Document>(
+      { kind: 'document.update', entityId: id, method: 'PATCH', path, body: { file }, resourcePath: path, base, optimistic: { id, ...file } },
+      () => this.one('Document', this.patch<Document>(path, { file }))
+    );
+  }
+
+  deleteDocument(id: string) {
+    return this.delete<void>(this.teamPath(`/files/${id}`));
+  }
+
+  deleteDocuments(ids: string[]) {
+    return this.bulk<void>(ids, id => ({ method: 'DELETE', endpoint: this.teamPath(`/files/${id}`) }));
+  }
+
+  // Bulk retag / move; each file carries its own changes
+  updateDocuments(updates: { id: string; file: UpdateDocumentRequest & { workspace_id?: string } }[]) {
+    const changes = new Map(updates.map(update => [update.id, update.file]));
+    return this.bulk<Document>([...changes.keys()], id => ({
+      method: 'PATCH',
+      endpoint: this.teamPath(`/files/${id}`),
+      data: { file: changes.get(id) }
+    }));
+  }
+
+  duplicateDocument(id: string, options: DuplicateDocumentRequest) {
+    return this.one('Document', this.post<Document>(this.teamPath(`/files/${id}/duplicate`), { options }));
+  }
+
+  getDocumentContent(id: string) {
+    return this.get<{ content: string; content_type?: string }>(this.teamPath(`/files/${id}/content`));
+  }
+
+  updateDocumentContent(id: string, request: UpdateDocumentContentRequest, base?: EntityVersion) {
+    const path = this.teamPath(`/files/${id}/content`);
+    const body = {
+      content: request.content,
+      commit_message: request.commit_message ?? 'Update content'
+    };
+    return offlineQueue.submit<Document>(
+      {
+        kind: 'document.content',
+        entityId: id,
+        method: 'PATCH',
+        path,
+        body,
+        resourcePath: this.teamPath(`/files/${id}`),
+        base,
+        optimistic: { id, content: request.content }
+      },
+      () => this.patch<Document>(path, body)
+    );
+  }
+
+  getDocumentVersions(id: string) {
+    return this.get<DocumentVersion[]>(this.teamPath(`/files/${id}/versions`));
+  }
+
+  renderDocument(id: string, request: RenderDocumentRequest) {
+    return this.post<{ content: string; format: string }>(this.teamPath(`/files/${id}/render`), request);
+  }
+
+  renameDocument(id: string, request: RenameDocumentRequest, base?: EntityVersion) {
+    const path = this.teamPath(`/files/${id}/rename`);
+    return offlineQueue.submit<Document>(
+      {
+        kind: 'document.rename',
+        entityId: id,
+        method: 'PATCH',
+        path,
+        body: { ...request },
+        resourcePath: this.teamPath(`/files/${id}`),
+        base,
+        optimistic: { id, title: request.new_title }
+      },
+      () => this.one('Document', this.patch<Document>(path, request))
+    );
+  }
+
+  viewDocument(id: string) {
+    return this.post<Document>(this.teamPath(`/files/${id}/view`));
+  }
+
+  uploadDocument(workspaceId: string, file: File, commitMessage?: string) {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (commitMessage) {
+      formData.append('commit_message', commitMessage);
+    }
+    return this.uploadDocuments(workspaceId, formData);
+  }
+
+  uploadDocuments(workspaceId: string, formData: FormData) {
+    return this.post<Document>(
+      this.teamPath(`/workspaces/${workspaceId}/files/upload`),
+      formData,
+      { idempotencyKey: true, timeout: 0 }
+    );
+  }
+
+  // Notebooks
+  listNotebooks(workspaceId?: string, params?: QueryParams, options?: ApiRequestOptions) {
+    return this.many(
+      'Notebook',
+      this.get<Notebook[]>(this.teamPath('/notebooks'), { ...params, workspace_id: workspaceId }, options)
+    );
+  }
+
+  getNotebook(id: string) {
+    return this.one('Notebook', this.get<Notebook>(this.teamPath(`/notebooks/${id}`)));
+  }
+
+  createNotebookFromDocument(documentId: string, notebook: Partial<CreateNotebookRequest>) {
+    return this.one(
+      'Notebook',
+      this.post<Notebook>(this.teamPath(`/files/${documentId}/notebooks`), { notebook })
+    );
+  }
+
+  updateNotebook(id: string, notebook: UpdateNotebookRequest, base?: EntityVersion) {
+    const path = this.teamPath(`/notebooks/${id}`);
+    return offlineQueue.submit<Notebook>(
+      { kind: 'notebook.update', entityId: id, method: 'PATCH', path, body: { notebook }, resourcePath: path, base, optimistic: { id, ...notebook } },
+      () => this.one('Notebook', this.patch<Notebook>(path, { notebook }))
+    );
+  }
+
+  deleteNotebook(id: string) {
+    return this.delete<void>(this.teamPath(`/notebooks/${id}`));
+  }
+
+  duplicateNotebook(id: string, options: DuplicateNotebookRequest) {
+    return this.one(
+      'Notebook',
+      this.post<Notebook>(this.teamPath(`/notebooks/${id}/duplicate`), { options })
+    );
+  }
+
+  executeNotebook(id: string, request: ExecuteNotebookRequest = {}) {
+    return this.post<Notebook>(this.teamPath(`/notebooks/${id}/execute`), {
+      environment_variables: request.environment,
+      timeout_seconds: request.timeout_seconds,
+      save_output: request.save_output
+    }, { idempotencyKey: true });
+  }
+
+  executeTask(id: string, taskId: string, request: ExecuteTaskRequest = {}) {
+    return this.post<Notebook>(this.teamPath(`/notebooks/${id}/execute/${taskId}`), {
+      environment_variables: request.environment,
+      timeout_seconds: request.timeout_seconds,
+      save_output: request.save_output
+    }, { idempotencyKey: true });
+  }
+
+  stopNotebookExecution(id: string) {
+    return this.post<Notebook>(this.teamPath(`/notebooks/${id}/stop`));
+  }
+
+  resetNotebookExecution(id: string) {
+    return this.post<Notebook>(this.teamPath(`/notebooks/${id}/reset`));
+  }
+
+  toggleCollaborativeMode(id: string) {
+    return this.post<Notebook>(this.teamPath(`/notebooks/${id}/collaborate`));
+  }
+
+  updateNotebookAccessTime(id: string) {
+    return this.one('Notebook', this.post<Notebook>(this.teamPath(`/notebooks/${id}/access`)));
+  }
+
+  getNotebookTasks(id: string) {
+    return this.many(
+      'NotebookTask',
+      this.field(this.get<NotebookTasksResponse>(this.teamPath(`/notebooks/${id}/tasks`)), 'tasks')
+    );
+  }
+
+  // Container services
+  listServices(params?: QueryParams & { status?: string; workspace_id?: string }, options?: ApiRequestOptions) {
+    return this.many(
+      'ContainerService',
+      this.get<ContainerService[]>(this.teamPath('/services'), params, options)
+    );
+  }
+
+  getService(id: string) {
+    return this.one('ContainerService', this.get<ContainerService>(this.teamPath(`/services/${id}`)));
+  }
+
+  createService(service: CreateServiceRequest) {
+    return this.one('ContainerService', this.post<ContainerService>(this.teamPath('/services'), { service }));
+  }
+
+  updateService(id: string, service: UpdateServiceRequest) {
+    return this.one(
+      'ContainerService',
+      this.patch<ContainerService>(this.teamPath(`/services/${id}`), { service })
+    );
+  }
+
+  deleteService(id: string) {
+    return this.delete<void>(this.teamPath(`/services/${id}`));
+  }
+
+  getServiceStatus(id: string) {
+    return this.get<ServiceStatusInfo>(this.teamPath(`/services/${id}/status`));
+  }
+
+  startService(id: string) {
+    return this.post<ContainerService>(this.teamPath(`/services/${id}/start`));
+  }
+
+  stopService(id: string) {
+    return this.post<ContainerService>(this.teamPath(`/services/${id}/stop`));
+  }
+
+  restartService(id: string) {
+    return this.post<ContainerService>(this.teamPath(`/services/${id}/restart`));
+  }
+
+  scaleService(id: string, replicaCount: number) {
+    return this.post<ContainerService>(this.teamPath(`/services/${id}/scale`), {
+      replica_count: replicaCount
+    });
+  }
+
+  getServiceLogs(id: string, options: { lines?: number; follow?: boolean } = {}) {
+    return this.get<Pick<ContainerLogs, 'logs' | 'timestamp'>>(this.teamPath(`/services/${id}/logs`), {
+      lines: options.lines,
+      follow: options.follow
+    });
+  }
+
+  getServiceMetrics(id: string) {
+    return this.get<ServiceMetrics>(this.teamPath(`/services/${id}/metrics`));
+  }
+
+  getServiceHealth(id: string) {
+    return this.get<ServiceHealthResponse>(this.teamPath(`/services/${id}/health`));
+  }
+
+  // Markdown scanning
+  scan(request: ScanRequest) {
+    return this.post<ScanReport>('/scan', request);
+  }
+
+  submitAsyncScan(request: ScanRequest) {
+    return this.post<AsyncScanJob>('/scan/async', request);
+  }
+
+  // Not unwrapped: a completed job nests the report under `data` next to `status`
+  async getAsyncScanResult(jobId: string): Promise<ApiResponse<AsyncScanJob>> {
+    const response = await this.http.get<AsyncScanJob>(`/scan/async/${jobId}`);
+    return { data: response.data, status: response.status };
+  }
+
+  // AI assistance
+  suggest(payload: Record<string, any>) {
+    return this.post<any>('/ai/suggest', payload);
+  }
+
+  confidence(payload: Record<string, any>) {
+    return this.post<any>('/ai/confidence', payload);
+  }
+
+  // Billing
+  getSubscription() {
+    return this.get<any>('/billing/subscription');
+  }
+
+  getSafeMDSubscription() {
+    return this.get<any>('/safemd/subscription');
+  }
+
+  cancelSafeMDSubscription() {
+    return this.post<any>('/safemd/subscription/cancel');
+  }
+
+  reactivateSafeMDSubscription() {
+    return this.post<any>('/safemd/subscription/reactivate');
+  }
+
+  // The endpoints below are used by the stores but are not routed server-side yet
+  search(query: string, types: string[] = [], filters?: SearchRequest['filters'], options?: ApiRequestOptions) {
+    return this.get<SearchResult[]>('/search', {
+      query,
+      types: types.join(',') || undefined,
+      ...filters
+    }, options);
+  }
+
+  getNotifications() {
+    return this.get<Omit<NotificationResponse, 'notifications'> & { notifications: Notification[] }>(
+      '/notifications'
+    );
+  }
+
+  markNotificationRead(id: string) {
+    return this.post<Notification>(`/notifications/${id}/read`);
+  }
+
+  markAllNotificationsRead() {
+    return this.post<void>('/notifications/read_all');
+  }
+
+  getDashboardStats(period: 'day' | 'week' | 'month' | 'year' = 'week') {
+    return this.get<DashboardStatsResponse>('/dashboard/stats', { period, team_id: this.teamId });
+  }
+
+  getDashboardActivity() {
+    return this.get<ActivityResponse>('/dashboard/activity', { team_id: this.teamId });
+  }
+
+  getProfile() {
+    return this.one('User', this.get<User>('/profile'));
+  }
+
+  updateProfile(profile: UpdateProfileRequest) {
+    return this.one('User', this.patch<User>('/profile', { user: profile }));
+  }
+
+  changePassword(request: ChangePasswordRequest) {
+    return this.patch<void>('/profile/password', request);
+  }
+}
+
+export function createApiService(config: ApiConfig): ApiService {
+  return new ApiService(config);
+}
+
+// Shared instance for code that cannot reach the `apiService` store (LiveView hooks)
+let defaultApi: ApiService | null = null;
+
+export function configureDefaultApi(config: ApiConfig): ApiService {
+  defaultApi = new ApiService(config);
+  return defaultApi;
+}
+
+// The shared instance if one was configured, for code that can do without it
+export function findDefaultApi(): ApiService | null {
+  return defaultApi;
+}
+
+export function getDefaultApi(): ApiService {
+  if (!defaultApi) {
+    throw new Error('API not configured; call configureDefaultApi() first');
+  }
+  return defaultApi;
+}
@@ -1,6 +1,7 @@
-import { writable } from "svelte/store";
+import { derived, writable } from "svelte/store";
+import { session } from "../lib/api/session";
 
-export const isAuthenticated = writable(false);
+export const isAuthenticated = derived(session, $session => !!$session.token);
 export const userDatabase = writable(null);
 export const username = writable("Guest");
 export const reportLimit = writable(1);
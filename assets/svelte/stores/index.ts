@@ -1,4 +1,4 @@
-import { writable, derived, readable, type Writable, type Readable } from 'svelte/store';
+import { writable, derived, readable, get, type Writable, type Readable } from 'svelte/store';
 const browser = typeof window !== 'undefined';
 import type {
   User,
@@ -12,9 +12,28 @@ import type {
   TableState,
   Notification,
   SearchResult,
-  LoadingState
+  LoadingState,
+  CreateTeamRequest,
+  UpdateTeamRequest,
+  CreateWorkspaceRequest,
+  UpdateWorkspaceRequest,
+  CreateDocumentRequest,
+  UpdateDocumentRequest,
+  CreateNotebookRequest,
+  UpdateNotebookRequest
 } from '../types';
-import { ApiService, type ApiConfig } from '../services/api';
+import { AuthenticationError, AuthorizationError } from '../types/api';
+import { ApiService, findDefaultApi, type ApiConfig } from '../services/api';
+import { onApiError } from '../lib/api/client';
+import { isCancellation } from '../lib/api/errors';
+import { queryCache, queryKey } from '../lib/api/query-cache';
+import { session } from '../lib/api/session';
+import { offlineQueue } from '../lib/api/offline-queue';
+import { fetchAllPages } from '../lib/api/pagination';
+import { createResourceStore, type LoadOptions } from '../lib/stores/resource-store';
+import { entities, entityRef } from '../lib/api/entities';
+
+export type { LoadOptions };
 
 // Core application state
 export const ui = writable<UIState>({
@@ -22,9 +41,7 @@ export const ui = writable<UIState>({
   mobileMenuOpen: false,
   theme: 'system',
   loading: false,
-  error: undefined,
-  currentTeam: undefined,
-  currentWorkspace: undefined
+  error: undefined
 });
 
 // Authentication state
@@ -43,347 +60,187 @@ export const auth = writable<{
 // API service instance
 export const apiService = writable<ApiService | null>(null);
 
+// Cache keys for team-scoped lists, so switching teams never serves another team's data
+function teamKey(api: ApiService, resource: string) {
+  return `team:${api.getTeamId() ?? ''}/${resource}`;
+}
+
+// List stores load every page; larger pages keep the request count down
+const LIST_PAGE_SIZE = 100;
+
+// Rolled-back changes surface through the app-wide error alert
+function reportError(message: string) {
+  ui.update(state => ({ ...state, error: message }));
+}
+
 // Teams store
 function createTeamsStore() {
-  const { subscribe, set, update } = writable<ApiState<Team[]>>({
-    data: [],
-    status: 'idle',
-    error: undefined
+  const resource = createResourceStore<Team, CreateTeamRequest, UpdateTeamRequest>({
+    label: 'team',
+    entity: 'Team',
+    cacheKey: () => 'teams',
+    create: (api, data) => api.createTeam(data),
+    update: (api, id, data) => api.updateTeam(id, data),
+    remove: (api, id) => api.deleteTeam(id),
+    onError: reportError
   });
 
   return {
-    subscribe,
-    async load(api: ApiService) {
-      update(state => ({ ...state, status: 'loading' }));
-      try {
-        const response = await api.listTeams();
-        set({
-          data: response.data,
-          status: 'success',
-          error: undefined,
-          lastFetch: new Date()
-        });
-      } catch (error) {
-        set({
-          data: [],
-          status: 'error',
-          error: error as any,
-          lastFetch: new Date()
-        });
-      }
-    },
-    async create(api: ApiService, teamData: any) {
-      try {
-        const response = await api.createTeam(teamData);
-        update(state => ({
-          ...state,
-          data: [...(state.data || []), response.data]
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
-    },
-    async update(api: ApiService, id: string, teamData: any) {
-      try {
-        const response = await api.updateTeam(id, teamData);
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(team => 
-            team.id === id ? response.data : team
-          )
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
-    },
-    async delete(api: ApiService, id: string) {
-      try {
-        await api.deleteTeam(id);
-        update(state => ({
-          ...state,
-          data: (state.data || []).filter(team => team.id !== id)
-        }));
-      } catch (error) {
-        throw error;
-      }
-    },
-    reset() {
-      set({
-        data: [],
-        status: 'idle',
-        error: undefined
-      });
+    ...resource,
+    async load(api: ApiService, options?: LoadOptions) {
+      await resource.fetch(
+        'teams',
+        () => api.listTeams({ scope: 'teams.load' }).then(response => response.data),
+        options
+      );
     }
   };
 }
 
 export const teams = createTeamsStore();
 
-// Current team store
-export const currentTeam = writable<Team | null>(null);
+// Current team, read through the entity cache
+export const currentTeam = entityRef('Team');
 
 // Workspaces store
 function createWorkspacesStore() {
-  const { subscribe, set, update } = writable<ApiState<Workspace[]>>({
-    data: [],
-    status: 'idle',
-    error: undefined
+  const resource = createResourceStore<Workspace, CreateWorkspaceRequest, UpdateWorkspaceRequest>({
+    label: 'workspace',
+    entity: 'Workspace',
+    cacheKey: api => teamKey(api, 'workspaces'),
+    create: (api, data) => api.createWorkspace(data),
+    update: (api, id, data) => api.updateWorkspace(id, data),
+    remove: (api, id) => api.deleteWorkspace(id),
+    onError: reportError
   });
 
   return {
-    subscribe,
-    async load(api: ApiService, params?: any) {
-      update(state => ({ ...state, status: 'loading' }));
-      try {
-        const response = await api.listWorkspaces(params);
-        set({
-          data: response.data,
-          status: 'success',
-          error: undefined,
-          lastFetch: new Date()
-        });
-      } catch (error) {
-        set({
-          data: [],
-          status: 'error',
-          error: error as any,
-          lastFetch: new Date()
-        });
-      }
-    },
-    async create(api: ApiService, workspaceData: any) {
-      try {
-        const response = await api.createWorkspace(workspaceData);
-        update(state => ({
-          ...state,
-          data: [...(state.data || []), response.data]
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
-    },
-    async update(api: ApiService, id: string, workspaceData: any) {
-      try {
-        const response = await api.updateWorkspace(id, workspaceData);
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(workspace => 
-            workspace.id === id ? response.data : workspace
-          )
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
-    },
-    async delete(api: ApiService, id: string) {
-      try {
-        await api.deleteWorkspace(id);
-        update(state => ({
-          ...state,
-          data: (state.data || []).filter(workspace => workspace.id !== id)
-        }));
-      } catch (error) {
-        throw error;
-      }
-    },
-    reset() {
-      set({
-        data: [],
-        status: 'idle',
-        error: undefined
-      });
+    ...resource,
+    async load(api: ApiService, params?: any, options?: LoadOptions) {
+      await resource.fetch(
+        queryKey(teamKey(api, 'workspaces'), params),
+        () => fetchAllPages(
+          (pageParams, options) => api.listWorkspaces(pageParams, { ...options, scope: 'workspaces.load' }),
+          { params, perPage: LIST_PAGE_SIZE }
+        ),
+        options
+      );
+    },
+    async deleteMany(api: ApiService, ids: string[]) {
+      const result = await api.deleteWorkspaces(ids);
+      resource.remove(new Set(result.succeeded.map(item => item.id)));
+      queryCache.invalidate(teamKey(api, 'workspaces'));
+      return result;
+    },
+    async archiveMany(api: ApiService, ids: string[]) {
+      const result = await api.archiveWorkspaces(ids);
+      resource.replace(new Map(result.succeeded.map(item => [item.id, item.data])));
+      queryCache.invalidate(teamKey(api, 'workspaces'));
+      return result;
     }
   };
 }
 
 export const workspaces = createWorkspacesStore();
 
-// Current workspace store
-export const currentWorkspace = writable<Workspace | null>(null);
+// Current workspace, read through the entity cache
+export const currentWorkspace = entityRef('Workspace');
 
 // Documents store
 function createDocumentsStore() {
-  const { subscribe, set, update } = writable<ApiState<Document[]>>({
-    data: [],
-    status: 'idle',
-    error: undefined
+  const resource = createResourceStore<Document, CreateDocumentRequest, UpdateDocumentRequest>({
+    label: 'document',
+    entity: 'Document',
+    cacheKey: api => teamKey(api, 'documents'),
+    create: (api, data) => api.createDocument(data),
+    update: (api, id, data, previous) =>
+      api.updateDocument(id, data, previous && { version: previous.version, checksum: previous.checksum }),
+    remove: (api, id) => api.deleteDocument(id),
+    onError: reportError
   });
 
   return {
-    subscribe,
-    async load(api: ApiService, workspaceId?: string, params?: any) {
-      update(state => ({ ...state, status: 'loading' }));
-      try {
-        const response = await api.listDocuments(workspaceId, params);
-        set({
-          data: response.data,
-          status: 'success',
-          error: undefined,
-          lastFetch: new Date()
-        });
-      } catch (error) {
-        set({
-          data: [],
-          status: 'error',
-          error: error as any,
-          lastFetch: new Date()
-        });
-      }
-    },
-    async create(api: ApiService, documentData: any) {
-      try {
-        const response = await api.createDocument(documentData);
-        update(state => ({
-          ...state,
-          data: [...(state.data || []), response.data]
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
-    },
-    async update(api: ApiService, id: string, documentData: any) {
-      try {
-        const response = await api.updateDocument(id, documentData);
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(document => 
-            document.id === id ? response.data : document
-          )
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
-    },
-    async delete(api: ApiService, id: string) {
-      try {
-        await api.deleteDocument(id);
-        update(state => ({
-          ...state,
-          data: (state.data || []).filter(document => document.id !== id)
-        }));
-      } catch (error) {
-        throw error;
-      }
-    },
-    reset() {
-      set({
-        data: [],
-        status: 'idle',
-        error: undefined
+    ...resource,
+    async load(api: ApiService, workspaceId?: string, params?: any, options?: LoadOptions) {
+      await resource.fetch(
+        queryKey(teamKey(api, 'documents'), { workspaceId, ...params }),
+        () => fetchAllPages(
+          (pageParams, options) => api.listDocuments(workspaceId, pageParams, { ...options, scope: 'documents.load' }),
+          { params, perPage: LIST_PAGE_SIZE }
+        ),
+        options
+      );
+    },
+    async deleteMany(api: ApiService, ids: string[]) {
+      const result = await api.deleteDocuments(ids);
+      resource.remove(new Set(result.succeeded.map(item => item.id)));
+      queryCache.invalidate(teamKey(api, 'documents'));
+      return result;
+    },
+    async retagMany(api: ApiService, ids: string[], changes: { add?: string[]; remove?: string[] }) {
+      const updates = ids.map(id => {
+        const tags = new Set(resource.find(id)?.tags || []);
+        changes.add?.forEach(tag => tags.add(tag));
+        changes.remove?.forEach(tag => tags.delete(tag));
+        return { id, file: { tags: [...tags] } };
       });
+      const result = await api.updateDocuments(updates);
+      resource.replace(new Map(result.succeeded.map(item => [item.id, item.data])));
+      queryCache.invalidate(teamKey(api, 'documents'));
+      return result;
+    },
+    async moveMany(api: ApiService, ids: string[], workspaceId: string) {
+      const result = await api.updateDocuments(ids.map(id => ({ id, file: { workspace_id: workspaceId } })));
+      resource.remove(new Set(result.succeeded.map(item => item.id)));
+      queryCache.invalidate(teamKey(api, 'documents'));
+      return result;
     }
   };
 }
 
 export const documents = createDocumentsStore();
 
+// Notebooks are created from a document
+interface CreateNotebookInput {
+  documentId: string;
+  notebook: Partial<CreateNotebookRequest>;
+}
+
 // Notebooks store
 function createNotebooksStore() {
-  const { subscribe, set, update } = writable<ApiState<Notebook[]>>({
-    data: [],
-    status: 'idle',
-    error: undefined
+  const resource = createResourceStore<Notebook, CreateNotebookInput, UpdateNotebookRequest>({
+    label: 'notebook',
+    entity: 'Notebook',
+    cacheKey: api => teamKey(api, 'notebooks'),
+    create: (api, { documentId, notebook }) => api.createNotebookFromDocument(documentId, notebook),
+    draft: ({ notebook }, id) => ({ ...notebook, id, status: 'idle' }) as Notebook,
+    update: (api, id, data, previous) => api.updateNotebook(id, data, previous && { updated_at: previous.updated_at }),
+    remove: (api, id) => api.deleteNotebook(id),
+    onError: reportError
   });
 
   return {
-    subscribe,
-    async load(api: ApiService, workspaceId?: string, params?: any) {
-      update(state => ({ ...state, status: 'loading' }));
-      try {
-        const response = await api.listNotebooks(workspaceId, params);
-        set({
-          data: response.data,
-          status: 'success',
-          error: undefined,
-          lastFetch: new Date()
-        });
-      } catch (error) {
-        set({
-          data: [],
-          status: 'error',
-          error: error as any,
-          lastFetch: new Date()
-        });
-      }
-    },
-    async create(api: ApiService, documentId: string, notebookData: any) {
-      try {
-        const response = await api.createNotebookFromDocument(documentId, notebookData);
-        update(state => ({
-          ...state,
-          data: [...(state.data || []), response.data]
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
+    ...resource,
+    async load(api: ApiService, workspaceId?: string, params?: any, options?: LoadOptions) {
+      await resource.fetch(
+        queryKey(teamKey(api, 'notebooks'), { workspaceId, ...params }),
+        () => api.listNotebooks(workspaceId, params, { scope: 'notebooks.load' }).then(response => response.data),
+        options
+      );
     },
-    async update(api: ApiService, id: string, notebookData: any) {
-      try {
-        const response = await api.updateNotebook(id, notebookData);
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(notebook => 
-            notebook.id === id ? response.data : notebook
-          )
-        }));
-        return response.data;
-      } catch (error) {
-        throw error;
-      }
+    create(api: ApiService, documentId: string, notebook: Partial<CreateNotebookRequest>) {
+      return resource.create(api, { documentId, notebook });
     },
     async execute(api: ApiService, id: string, options?: any) {
+      resource.patch(id, { status: 'running' });
       try {
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(notebook => 
-            notebook.id === id ? { ...notebook, status: 'running' } : notebook
-          )
-        }));
-        
         const response = await api.executeNotebook(id, options);
-        
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(notebook => 
-            notebook.id === id ? { ...notebook, status: response.data.status } : notebook
-          )
-        }));
-        
+        resource.patch(id, { status: response.data.status });
         return response.data;
       } catch (error) {
-        update(state => ({
-          ...state,
-          data: (state.data || []).map(notebook => 
-            notebook.id === id ? { ...notebook, status: 'error' } : notebook
-          )
-        }));
+        resource.patch(id, { status: 'error' });
         throw error;
       }
-    },
-    async delete(api: ApiService, id: string) {
-      try {
-        await api.deleteNotebook(id);
-        update(state => ({
-          ...state,
-          data: (state.data || []).filter(notebook => notebook.id !== id)
-        }));
-      } catch (error) {
-        throw error;
-      }
-    },
-    reset() {
-      set({
-        data: [],
-        status: 'idle',
-        error: undefined
-      });
     }
   };
 }
@@ -529,13 +386,14 @@ function createSearchStore() {
     async search(api: ApiService, query: string, filters?: any) {
       update(state => ({ ...state, query, loading: true }));
       try {
-        const response = await api.search(query, [], filters);
+        const response = await api.search(query, [], filters, { scope: 'search' });
         update(state => ({
           ...state,
           results: response.data,
           loading: false
         }));
       } catch (error) {
+        if (isCancellation(error)) return;
         update(state => ({ ...state, loading: false, results: [] }));
       }
     },
@@ -672,6 +530,52 @@ if (browser) {
   }
 }
 
+// Refetch stale lists when the user comes back to the tab or the network returns
+if (browser) {
+  queryCache.startAutoRevalidate();
+}
+
+// The session manager owns the token; `auth` mirrors it. Ending a session (here or in another
+// tab) or switching users clears every store so no team data carries over.
+if (browser) {
+  session.start();
+  session.subscribe($session => {
+    auth.update(state => ({
+      ...state,
+      token: $session.token,
+      user: $session.user ?? state.user,
+      isAuthenticated: !!$session.token
+    }));
+  });
+  session.onLogout(reason => {
+    resetAllStores();
+    // Unsent edits belong to this user: dropped when they sign out or someone else signs in, but
+    // kept through an expired session so they replay once the same user is back
+    if (reason !== 'expired') offlineQueue.clear();
+  });
+}
+
+// Edits saved while offline are replayed on reconnect; refetch lists once they land
+if (browser) {
+  // LiveView pages have no app-wide service; their components configure the shared one
+  offlineQueue.start(() => get(apiService) ?? findDefaultApi());
+  offlineQueue.onSynced(mutation => {
+    queryCache.invalidate(key => key.includes(mutation.kind.startsWith('notebook') ? '/notebooks' : '/documents'));
+  });
+}
+
+// Global API error handling: expired sessions and forbidden actions surface app-wide
+if (browser) {
+  onApiError(error => {
+    if (error instanceof AuthenticationError) {
+      // The client already tried a refresh before reporting the 401
+      session.logout('expired');
+    } else if (error instanceof AuthorizationError) {
+      ui.update(state => ({ ...state, error: error.message }));
+    }
+  });
+}
+
 // Utility functions
 export function resetAllStores() {
   teams.reset();
@@ -680,6 +584,8 @@ export function resetAllStores() {
   notebooks.reset();
   projects.reset();
   search.clear();
+  queryCache.clear();
+  entities.clear();
   
   auth.set({
     user: null,
@@ -693,8 +599,6 @@ export function resetAllStores() {
   
   ui.update(state => ({
     ...state,
-    currentTeam: undefined,
-    currentWorkspace: undefined,
     error: undefined
   }));
 }
@@ -703,12 +607,9 @@ export function initializeApp(config: ApiConfig) {
   const api = new ApiService(config);
   apiService.set(api);
   
-  // Set authenticated state
-  auth.update(state => ({
-    ...state,
-    token: config.apiToken,
-    isAuthenticated: !!config.apiToken
-  }));
+  if (config.apiToken) {
+    session.login({ token: config.apiToken });
+  }
   
   return api;
 }
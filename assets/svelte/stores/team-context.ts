@@ -0,0 +1,257 @@
+// The team and workspace the app is looking at. Switching goes through here so the API client's
+// team scope, the team-scoped stores and the URL (`?team=…&workspace=…`) always agree, without a
+// page reload.
+import { get, writable, type Readable } from 'svelte/store';
+import type { Team, Workspace } from '../types';
+import {
+  apiService,
+  currentTeam,
+  currentWorkspace,
+  documents,
+  notebooks,
+  projects,
+  search,
+  teams,
+  workspaces
+} from './index';
+import { entities } from '../lib/api/entities';
+import { session } from '../lib/api/session';
+
+export interface TeamContextState {
+  teamId: string | null;
+  workspaceId: string | null;
+  // A switch is in progress
+  switching: boolean;
+}
+
+export interface SelectOptions {
+  // How the selection is written to the URL; 'none' when it came from the URL
+  history?: 'push' | 'replace' | 'none';
+}
+
+const TEAM_PARAM = 'team';
+const WORKSPACE_PARAM = 'workspace';
+
+/**
+ * Tell the server which team this session is in, so LiveView pages opened later agree.
+ * Best effort; the API itself is scoped by path.
+ */
+export async function rememberTeam(teamId: string) {
+  const csrfToken = document.querySelector("meta[name='csrf-token']")?.getAttribute('content') ?? '';
+  try {
+    await fetch(`/set-team/${teamId}`, { method: 'POST', headers: { 'X-CSRF-Token': csrfToken } });
+  } catch (e) {
+    console.warn('Could not store the current team in the session:', e);
+  }
+}
+
+/**
+ * Team and workspace ids from the current URL
+ */
+export function contextFromUrl(url: URL = new URL(window.location.href)) {
+  return {
+    teamId: url.searchParams.get(TEAM_PARAM),
+    workspaceId: url.searchParams.get(WORKSPACE_PARAM)
+  };
+}
+
+class TeamContext implements Readable<TeamContextState> {
+  private state = writable<TeamContextState>({ teamId: null, workspaceId: null, switching: false });
+  // Bumped on every switch; an older switch still awaiting the API gives up
+  private generation = 0;
+  private detach: (() => void) | null = null;
+  // Where a deep link to a team that cannot be loaded lands instead
+  private defaultTeamId: string | null = null;
+
+  subscribe = this.state.subscribe;
+
+  /**
+   * Switch team: cancels the old team's requests, rescopes the API client, clears and reloads the
+   * team-scoped stores. Accepts an id (e.g. from a deep link) or an already loaded team.
+   */
+  async selectTeam(team: Team | string, options: SelectOptions & { workspaceId?: string | null } = {}) {
+    const api = get(apiService);
+    const teamId = typeof team === 'string' ? team : team.id;
+    const { history = 'push', workspaceId } = options;
+
+    if (teamId === get(this.state).teamId) {
+      if (workspaceId !== undefined && workspaceId !== get(this.state).workspaceId) {
+        await this.selectWorkspace(workspaceId, { history });
+      }
+      return;
+    }
+
+    const generation = ++this.generation;
+    const previousTeamId = api?.getTeamId();
+    this.state.set({ teamId, workspaceId: null, switching: true });
+
+    // Responses for the old team must not land in the new one
+    api?.cancelAll();
+    api?.setTeamId(teamId);
+    workspaces.reset();
+    documents.reset();
+    notebooks.reset();
+    projects.reset();
+    search.clear();
+    currentWorkspace.set(null);
+    this.writeUrl(history);
+
+    try {
+      let resolved: Team;
+      try {
+        resolved = typeof team === 'string' ? await this.loadTeam(team) : team;
+      } catch (e) {
+        if (generation !== this.generation) return;
+        console.warn(`Team ${teamId} is not available:`, e);
+        await this.fallBack(teamId);
+        return;
+      }
+      if (generation !== this.generation) return;
+      currentTeam.set(resolved);
+      if (previousTeamId !== teamId) rememberTeam(teamId);
+
+      if (api) await workspaces.load(api);
+      if (generation !== this.generation) return;
+      if (workspaceId) await this.selectWorkspace(workspaceId, { history: 'replace' });
+    } finally {
+      if (generation === this.generation) this.state.update(state => ({ ...state, switching: false }));
+    }
+  }
+
+  /**
+   * Switch workspace within the current team and load its documents and notebooks
+   */
+  async selectWorkspace(workspace: Workspace | string | null, options: SelectOptions = {}) {
+    const api = get(apiService);
+    const workspaceId = typeof workspace === 'string' ? workspace : (workspace?.id ?? null);
+    const { history = 'push' } = options;
+
+    this.state.update(state => ({ ...state, workspaceId }));
+    this.writeUrl(history);
+    documents.reset();
+    notebooks.reset();
+
+    if (!workspaceId) {
+      currentWorkspace.set(null);
+      return;
+    }
+
+    const generation = this.generation;
+    const resolved = typeof workspace === 'string' ? await this.loadWorkspace(workspace) : workspace;
+    if (generation !== this.generation || get(this.state).workspaceId !== workspaceId) return;
+    currentWorkspace.set(resolved);
+
+    // A stale id must not stay selected, or in the URL
+    if (!resolved) {
+      this.state.update(state => ({ ...state, workspaceId: null }));
+      this.writeUrl('replace');
+      return;
+    }
+
+    if (api) {
+      await Promise.all([documents.load(api, resolved.id), notebooks.load(api, resolved.id)]);
+    }
+  }
+
+  /**
+   * Apply the URL's team and workspace (deep links, back/forward), falling back to `defaultTeamId`,
+   * and keep following navigation
+   */
+  async start(defaultTeamId?: string | null) {
+    this.defaultTeamId = defaultTeamId ?? null;
+    if (!this.detach) {
+      const onPopState = () => this.applyUrl();
+      // goto() drops the query string; put the selection back
+      const onNavigate = () => this.writeUrl('replace');
+      window.addEventListener('popstate', onPopState);
+      window.addEventListener('navigate', onNavigate);
+      // The stores are cleared on logout; so is the selection
+      const offLogout = session.onLogout(() => this.reset());
+      this.detach = () => {
+        window.removeEventListener('popstate', onPopState);
+        window.removeEventListener('navigate', onNavigate);
+        offLogout();
+      };
+    }
+    try {
+      await this.applyUrl(defaultTeamId);
+    } catch (e) {
+      // The app still starts; the team's lists show their own errors
+      console.warn('Could not apply the team and workspace from the URL:', e);
+    }
+  }
+
+  stop() {
+    this.detach?.();
+    this.detach = null;
+  }
+
+  /**
+   * Forget the selection, e.g. after the current team was deleted
+   */
+  reset() {
+    this.generation++;
+    this.state.set({ teamId: null, workspaceId: null, switching: false });
+    currentTeam.set(null);
+    currentWorkspace.set(null);
+  }
+
+  private async applyUrl(defaultTeamId?: string | null) {
+    const { teamId, workspaceId } = contextFromUrl();
+    const target = teamId ?? defaultTeamId ?? get(this.state).teamId;
+    if (!target) return;
+    await this.selectTeam(target, { workspaceId, history: teamId ? 'none' : 'replace' });
+  }
+
+  // A stale or foreign team id (e.g. a deep link): use the default team, or drop the selection
+  private async fallBack(failedTeamId: string) {
+    const fallback = this.defaultTeamId;
+    if (fallback && fallback !== failedTeamId) {
+      await this.selectTeam(fallback, { history: 'replace' });
+      return;
+    }
+    get(apiService)?.setTeamId(undefined);
+    this.state.set({ teamId: null, workspaceId: null, switching: false });
+    currentTeam.set(null);
+    this.writeUrl('replace');
+  }
+
+  private writeUrl(history: NonNullable<SelectOptions['history']>) {
+    if (history === 'none' || typeof window === 'undefined') return;
+
+    const { teamId, workspaceId } = get(this.state);
+    const url = new URL(window.location.href);
+    if (teamId) url.searchParams.set(TEAM_PARAM, teamId);
+    else url.searchParams.delete(TEAM_PARAM);
+    if (workspaceId) url.searchParams.set(WORKSPACE_PARAM, workspaceId);
+    else url.searchParams.delete(WORKSPACE_PARAM);
+
+    if (url.href === window.location.href) return;
+    if (history === 'push') window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }
+
+  private async loadTeam(teamId: string): Promise<Team> {
+    const known = entities.get('Team', teamId) ?? get(teams).data?.find(team => team.id === teamId);
+    if (known) return known;
+    const api = get(apiService);
+    if (!api) throw new Error('API not initialized');
+    return (await api.getTeam(teamId)).data;
+  }
+
+  private async loadWorkspace(workspaceId: string): Promise<Workspace | null> {
+    const known = entities.get('Workspace', workspaceId);
+    if (known) return known;
+    const api = get(apiService);
+    if (!api) return null;
+    try {
+      return (await api.getWorkspace(workspaceId)).data;
+    } catch (e) {
+      // A stale deep link; stay on the team
+      console.warn(`Workspace ${workspaceId} is not available:`, e);
+      return null;
+    }
+  }
+}
+
+export const teamContext = new TeamContext();
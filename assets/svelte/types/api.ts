@@ -1,3 +1,5 @@
+import type { NotebookTask } from './index';
+
 // API Configuration
 export interface ApiConfig {
   baseUrl: string;
@@ -12,7 +14,24 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 // Request/Response types
 export interface ApiRequestOptions extends RequestInit {
   params?: Record<string, any>;
+  // Filters, sort and includes in the JSON:API query syntax (see lib/api/query)
+  query?: QueryOptions;
   timeout?: number;
+  // Requests sharing a scope cancel each other; only the latest one settles
+  scope?: string;
+  // Overrides the client's retry policy; `false` disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Sends an `Idempotency-Key` header (`true` generates one), making POST/PATCH retryable
+  idempotencyKey?: string | boolean;
+  // Error statuses the caller handles itself; they are not logged or shown to the user
+  expectedStatuses?: number[];
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatus: number[];
 }
 
 export interface ApiError {
@@ -54,6 +73,46 @@ export class AuthorizationError extends Error {
   }
 }
 
+export class TimeoutError extends Error {
+  constructor(
+    message: string = 'Request timed out',
+    public timeout?: number
+  ) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class RequestCancelledError extends Error {
+  constructor(message: string = 'Request cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public details?: any,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export class ResponseValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
 // Team API types
 export interface CreateTeamRequest {
   name: string;
@@ -85,6 +144,8 @@ export interface CreateWorkspaceRequest {
   storage_path?: string;
   git_repository_url?: string;
   git_branch?: string;
+  // Implied by the team-scoped path; accepted for callers that still send it
+  team_id?: string;
 }
 
 export interface UpdateWorkspaceRequest {
@@ -188,6 +249,16 @@ export interface DuplicateNotebookRequest {
   workspace_id?: string;
 }
 
+export interface NotebookTasksResponse {
+  notebook_id: string;
+  tasks: NotebookTask[];
+}
+
+export interface WorkspaceTasksResponse {
+  workspace_id: string;
+  tasks: NotebookTask[];
+}
+
 // Project API types (from Projects domain)
 export interface LoadDirectoryProjectRequest {
   path: string;
@@ -3,6 +3,11 @@ export interface ApiResponse<T = any> {
   data: T;
   message?: string;
   status: number;
+  // Pagination details from the response envelope, when present
+  meta?: Record<string, any>;
+  links?: Record<string, string | undefined>;
+  // Set when a mutation was stored for replay instead of sent (see lib/api/offline-queue)
+  queued?: boolean;
 }
 
 export interface PaginatedResponse<T = any> extends ApiResponse<T[]> {
@@ -383,8 +388,6 @@ export interface UIState {
   theme: 'light' | 'dark' | 'system';
   loading: boolean;
   error?: string;
-  currentTeam?: Team;
-  currentWorkspace?: Workspace;
 }
 
 export interface TableState<T = any> {
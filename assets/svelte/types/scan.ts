@@ -0,0 +1,97 @@
+// SafeMD scan types (Dirup.Markdown.Pipeline.Result JSON, ScanController, ScanChannel)
+
+export type ThreatLevel = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+// REST modes; the channel calls `research` "detect"
+export type ScanMode = 'sanitize' | 'research' | 'analyze';
+
+export interface ScanThreat {
+  type: string;
+  severity: ThreatLevel;
+  description: string;
+  location: { line?: number; column?: number; offset?: number; [key: string]: any };
+}
+
+export interface ScanCapability {
+  type: string;
+  language: string;
+  description: string;
+  confidence: number;
+}
+
+export interface ScanWarning {
+  message: string;
+  severity: string;
+}
+
+// Result.summary/1, sent with the channel's scan_complete
+export interface ScanSummary {
+  safe: boolean;
+  threat_level: ThreatLevel;
+  security_score: number;
+  threats_count: number;
+  capabilities_count: number;
+  processing_time_ms: number;
+  content_size_bytes: number;
+  success: boolean;
+}
+
+export interface ScanReport {
+  safe: boolean;
+  threat_level: ThreatLevel;
+  threats_detected: number;
+  content_modified: boolean;
+  threats: ScanThreat[];
+  processing_time_ms: number;
+  content_size_bytes: number;
+  // Only present when the content is safe
+  sanitized_content?: string;
+  warnings?: ScanWarning[];
+  // Research mode
+  capabilities_detected?: number;
+  capabilities?: ScanCapability[];
+  polyglot_features?: string[];
+  hidden_functionality?: string[];
+  // Streaming scans only
+  summary?: ScanSummary;
+}
+
+export interface ScanOptions {
+  mode?: ScanMode;
+  strict?: boolean;
+  include_polyglot?: boolean;
+  threat_level?: ThreatLevel;
+  ai_optimization?: boolean;
+}
+
+export type AsyncScanStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// GET /scan/async/:job_id, unwrapped
+export interface AsyncScanJob {
+  success: boolean;
+  status: AsyncScanStatus;
+  job_id?: string;
+  progress?: number;
+  estimated_completion?: string;
+  data?: ScanReport;
+  error?: string;
+}
+
+export interface ScanAlert {
+  sequence: number;
+  alerts: { threat_level: ThreatLevel; threats: ScanThreat[]; errors: unknown[] };
+}
+
+export type ScanPhase = 'connecting' | 'streaming' | 'analyzing' | 'queued' | 'complete' | 'failed' | 'cancelled';
+
+export interface ScanProgress {
+  phase: ScanPhase;
+  transport: 'channel' | 'polling' | null;
+  // 0..1
+  progress: number;
+  bytesSent: number;
+  totalBytes: number;
+  threatsFound: number;
+  alerts: ScanAlert[];
+  error?: string;
+}
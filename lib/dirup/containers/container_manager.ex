@@ -396,6 +396,7 @@ defmodule Dirup.Containers.ContainerManager do
       # Update state with new container
       containers = Map.put(state.containers, container_info.container_id, container_info)
       broadcast_container_event(service_instance, :deployed, container_info)
+      broadcast_service_update(container_info, "status_change", %{status: "running"})
 
       {:ok, container_info}
     else
@@ -415,6 +416,13 @@ defmodule Dirup.Containers.ContainerManager do
         :ok ->
           containers = Map.delete(state.containers, container_id)
           broadcast_container_event(service_instance, :stopped, %{container_id: container_id})
+
+          broadcast_service_update(
+            %{service_id: service_instance.id, workspace_id: service_instance.workspace_id},
+            "status_change",
+            %{status: "stopped"}
+          )
+
           {:ok, :stopped}
 
         error ->
@@ -511,6 +519,8 @@ defmodule Dirup.Containers.ContainerManager do
          :ok <- DockerClient.start_container(create_result["Id"]) do
       container_info = %{
         container_id: create_result["Id"],
+        service_id: service_instance.id,
+        workspace_id: service_instance.workspace_id,
         image_info: image_info,
         status: :running,
         created_at: DateTime.utc_now(),
@@ -575,6 +585,11 @@ defmodule Dirup.Containers.ContainerManager do
           )
 
           broadcast_health_event(container_info, :unhealthy, %{status: status})
+
+          broadcast_service_update(container_info, "health_check", %{
+            status: "unhealthy",
+            container_status: status
+          })
         end
 
       {:error, error} ->
@@ -596,10 +611,11 @@ defmodule Dirup.Containers.ContainerManager do
     end)
   end
 
-  defp collect_container_metrics(container_id, _container_info) do
+  defp collect_container_metrics(container_id, container_info) do
     case DockerClient.get_container_stats(container_id, stream: false) do
       {:ok, stats} ->
         broadcast_metrics_event(container_id, stats)
+        broadcast_service_update(container_info, "metrics_update", resource_utilization(stats))
 
       {:error, error} ->
         Logger.debug("Failed to collect container metrics",
@@ -767,6 +783,31 @@ defmodule Dirup.Containers.ContainerManager do
     )
   end
 
+  # Workspace dashboards listen on the workspace's execution channel
+  # (see DirupWeb.ExecutionChannel.handle_info/2 for {:service_update, ...})
+  defp broadcast_service_update(%{service_id: service_id, workspace_id: workspace_id}, type, data)
+       when not is_nil(workspace_id) do
+    Phoenix.PubSub.broadcast(
+      Dirup.PubSub,
+      "workspace_events:#{workspace_id}",
+      {:service_update, service_id, type, data}
+    )
+  end
+
+  defp broadcast_service_update(_container_info, _type, _data), do: :ok
+
+  # Shaped like the Svelte ResourceUtilization type (assets/svelte/types/containers.ts)
+  defp resource_utilization(stats) do
+    %{
+      cpu_percent: stats.cpu.percent,
+      memory_percent: stats.memory.percent,
+      memory_usage_bytes: stats.memory.usage,
+      memory_limit_bytes: stats.memory.limit,
+      network_rx_bytes: stats.network.rx_bytes,
+      network_tx_bytes: stats.network.tx_bytes
+    }
+  end
+
   ## Private Functions - Database Operations
 
   defp record_deployment_success(service_instance, container_info) do
@@ -118,6 +118,8 @@ defmodule DirupWeb.ExecutionChannel do
     {:ok, _} =
       Presence.track(socket, user_id, %{
         online_at: inspect(System.system_time(:second)),
+        status: "active",
+        location: nil,
         user: %{
           id: user_id,
           name: socket.assigns.current_user.name || "Unknown"
@@ -250,6 +252,51 @@ defmodule DirupWeb.ExecutionChannel do
     {:noreply, socket}
   end
 
+  # Yjs document sync: the server only relays binary (base64) updates between peers, which
+  # exchange state vectors on join to catch up with each other
+  def handle_in(event, payload, socket)
+      when event in ["yjs_update", "yjs_sync", "yjs_sync_reply", "yjs_awareness"] do
+    broadcast_from!(socket, event, Map.put(payload, "user_id", socket.assigns.current_user.id))
+    {:noreply, socket}
+  end
+
+  # A client that finds the shared document empty asks before writing the initial content. Only
+  # one connection is granted while nobody in the room holds the document; two clients seeding
+  # separately would each write the whole document and duplicate it once they sync.
+  def handle_in("yjs_seed", _payload, socket) do
+    granted =
+      :global.trans({{__MODULE__, :yjs_seed, socket.topic}, self()}, fn ->
+        if yjs_held?(socket) do
+          false
+        else
+          mark_yjs_holder(socket)
+          true
+        end
+      end)
+
+    {:reply, {:ok, %{granted: granted}}, socket}
+  end
+
+  # This connection has the shared document, received from the room or seeded
+  def handle_in("yjs_holding", _payload, socket) do
+    mark_yjs_holder(socket)
+    {:noreply, socket}
+  end
+
+  # Activity status (active/idle/typing) and current page, merged into this user's presence meta
+  def handle_in("presence_status", %{"status" => status} = params, socket)
+      when status in ["active", "idle", "typing"] do
+    user_id = socket.assigns.current_user.id
+
+    Presence.update(socket, user_id, fn meta ->
+      meta
+      |> Map.put(:status, status)
+      |> Map.put(:location, Map.get(params, "location", meta[:location]))
+    end)
+
+    {:noreply, socket}
+  end
+
   # Handle execution status updates from background processes
   def handle_info({:execution_update, execution_id, status}, socket) do
     push(socket, "execution_update", %{
@@ -312,6 +359,19 @@ defmodule DirupWeb.ExecutionChannel do
     {:noreply, socket}
   end
 
+  # Service lifecycle updates for workspace dashboards; type is one of
+  # "status_change", "metrics_update", "health_check" or "deployment_event"
+  def handle_info({:service_update, service_id, type, data}, socket) do
+    push(socket, "service_update", %{
+      service_id: service_id,
+      type: type,
+      data: data,
+      timestamp: DateTime.utc_now()
+    })
+
+    {:noreply, socket}
+  end
+
   # Handle presence events
   def handle_info(%Phoenix.Socket.Broadcast{topic: _, event: "presence_diff"}, socket) do
     push(socket, "presence_state", Presence.list(socket))
@@ -355,6 +415,18 @@ defmodule DirupWeb.ExecutionChannel do
     end
   end
 
+  defp yjs_held?(socket) do
+    socket
+    |> Presence.list()
+    |> Enum.any?(fn {_user_id, %{metas: metas}} ->
+      Enum.any?(metas, &Map.get(&1, :yjs_holder, false))
+    end)
+  end
+
+  defp mark_yjs_holder(socket) do
+    Presence.update(socket, socket.assigns.current_user.id, &Map.put(&1, :yjs_holder, true))
+  end
+
   defp setup_subscriptions(socket) do
     case socket.assigns.resource_type do
       :notebook ->
@@ -0,0 +1,39 @@
+defmodule DirupWeb.UserSocket do
+  @moduledoc """
+  WebSocket for the Svelte app's channels (execution updates, presence,
+  collaborative editing, log tails).
+
+  Clients connect with the Phoenix token the pages render as `apiToken`
+  (see `DirupWeb.UserAuth.put_user_token/2`).
+  """
+
+  use Phoenix.Socket
+
+  alias Dirup.Accounts
+
+  ## Channels
+  channel "execution:*", DirupWeb.ExecutionChannel
+
+  # Same lifetime as the token's session: two weeks
+  @token_max_age 1_209_600
+
+  @impl true
+  def connect(%{"token" => token}, socket, _connect_info) when is_binary(token) do
+    with {:ok, user_id} <-
+           Phoenix.Token.verify(socket, "user salt", token, max_age: @token_max_age),
+         {:ok, user} <- Accounts.get_user(user_id, authorize?: false) do
+      {:ok, assign(socket, :current_user, user)}
+    else
+      _ -> :error
+    end
+  end
+
+  def connect(_params, _socket, _connect_info) do
+    :error
+  end
+
+  @impl true
+  def id(socket) do
+    "user_socket:#{socket.assigns.current_user.id}"
+  end
+end
@@ -169,14 +169,14 @@ defmodule DirupWeb.API.FilesController do
 
     upload_params = %{
       "workspace_id" => workspace_id,
-      "file_upload" => file_params,
+      "file_upload" => read_upload(file_params),
       "initial_commit_message" => conn.params["commit_message"] || "Upload document"
     }
 
-    with {:ok, document} <- upload_document(upload_params, current_user, current_team) do
+    with {:ok, file} <- upload_document(upload_params, current_user, current_team) do
       conn
       |> put_status(:created)
-      |> render(:show, document: document)
+      |> render(:show, file: file)
     end
   end
 
@@ -307,6 +307,19 @@ defmodule DirupWeb.API.FilesController do
     end
   end
 
+  # Multipart file parts arrive as a Plug.Upload; the upload action takes the bytes
+  defp read_upload(%{"content" => %Plug.Upload{path: path, content_type: content_type}} = params) do
+    params = Map.put(params, "content", File.read!(path))
+
+    if content_type do
+      Map.put_new(params, "content_type", content_type)
+    else
+      params
+    end
+  end
+
+  defp read_upload(params), do: params
+
   defp upload_document(params, actor, tenant) do
     # This would handle file upload processing
     Workspaces.create_file(
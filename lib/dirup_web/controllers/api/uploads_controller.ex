@@ -0,0 +1,200 @@
+defmodule DirupWeb.API.UploadsController do
+  @moduledoc """
+  Resumable file uploads.
+
+  The client opens a session, PUTs the file in numbered chunks (in any order,
+  retrying as needed), asks which chunks arrived after a dropped connection,
+  and completes the session, which creates the file like
+  `DirupWeb.API.FilesController.upload/2`.
+
+  Chunks are kept on local disk until the session completes or is deleted.
+  Sessions left untouched for a day are abandoned and swept when a new one opens.
+  """
+  use DirupWeb, :controller
+
+  alias Dirup.Workspaces
+
+  action_fallback DirupWeb.FallbackController
+
+  @max_chunk_size 16 * 1024 * 1024
+  @session_ttl_seconds 24 * 60 * 60
+
+  def create(conn, %{"workspace_id" => workspace_id, "upload" => params}) do
+    current_user = conn.assigns.current_user
+    current_team = conn.assigns.current_team
+    sweep_stale_sessions()
+
+    with {:ok, _workspace} <-
+           Workspaces.get_workspace(workspace_id, actor: current_user, tenant: current_team),
+         {:ok, upload} <- new_session(params, workspace_id, current_user, current_team) do
+      conn
+      |> put_status(:created)
+      |> render(:show, upload: upload, received_chunks: [])
+    end
+  end
+
+  def show(conn, %{"id" => id}) do
+    with {:ok, upload} <- load_session(conn, id) do
+      render(conn, :show, upload: upload, received_chunks: received_chunks(upload))
+    end
+  end
+
+  def chunk(conn, %{"id" => id, "index" => index}) do
+    with {:ok, upload} <- load_session(conn, id),
+         {:ok, index} <- parse_index(index, upload),
+         {:ok, body, conn} <- read_chunk(conn),
+         :ok <- File.write(chunk_path(upload.id, index), body) do
+      send_resp(conn, :no_content, "")
+    end
+  end
+
+  def complete(conn, %{"id" => id}) do
+    current_user = conn.assigns.current_user
+    current_team = conn.assigns.current_team
+
+    with {:ok, upload} <- load_session(conn, id),
+         :ok <- check_complete(upload),
+         {:ok, content} <- assemble(upload),
+         {:ok, file} <-
+           Workspaces.create_file(
+             %{
+               "workspace_id" => upload.workspace_id,
+               "file_upload" => %{
+                 "filename" => upload.filename,
+                 "content" => content,
+                 "content_type" => upload.content_type || MIME.from_path(upload.filename)
+               },
+               "initial_commit_message" => upload.commit_message
+             },
+             actor: current_user,
+             tenant: current_team
+           ) do
+      File.rm_rf(session_dir(upload.id))
+
+      conn
+      |> put_status(:created)
+      |> put_view(json: DirupWeb.API.FilesJSON)
+      |> render(:show, file: file)
+    end
+  end
+
+  def delete(conn, %{"id" => id}) do
+    with {:ok, upload} <- load_session(conn, id) do
+      File.rm_rf(session_dir(upload.id))
+      send_resp(conn, :no_content, "")
+    end
+  end
+
+  # Private helper functions
+
+  defp new_session(params, workspace_id, user, team) do
+    with {:ok, size} <- positive_integer(params["size"]),
+         {:ok, chunk_size} <- positive_integer(params["chunk_size"]),
+         true <- chunk_size <= @max_chunk_size || {:error, "Chunk size is too large"},
+         filename when is_binary(filename) and filename != "" <- params["filename"] do
+      upload = %{
+        id: Ecto.UUID.generate(),
+        user_id: user.id,
+        team_id: team.id,
+        workspace_id: workspace_id,
+        filename: Path.basename(filename),
+        size: size,
+        chunk_size: chunk_size,
+        content_type: params["content_type"],
+        commit_message: params["commit_message"] || "Upload document"
+      }
+
+      with :ok <- File.mkdir_p(session_dir(upload.id)),
+           :ok <- File.write(meta_path(upload.id), :erlang.term_to_binary(upload)) do
+        {:ok, upload}
+      end
+    else
+      {:error, _} = error -> error
+      _ -> {:error, :invalid_params}
+    end
+  end
+
+  # Sessions belong to the user, team and workspace that opened them
+  defp load_session(conn, id) do
+    with {:ok, id} <- Ecto.UUID.cast(id),
+         {:ok, binary} <- File.read(meta_path(id)),
+         upload = :erlang.binary_to_term(binary, [:safe]),
+         true <- upload.user_id == conn.assigns.current_user.id,
+         true <- upload.team_id == conn.assigns.current_team.id,
+         true <- upload.workspace_id == conn.params["workspace_id"] do
+      {:ok, upload}
+    else
+      _ -> {:error, :not_found}
+    end
+  end
+
+  defp chunk_count(upload), do: div(upload.size + upload.chunk_size - 1, upload.chunk_size)
+
+  defp received_chunks(upload) do
+    for index <- 0..(chunk_count(upload) - 1), File.exists?(chunk_path(upload.id, index)), do: index
+  end
+
+  defp parse_index(index, upload) do
+    case Integer.parse(index) do
+      {index, ""} when index >= 0 ->
+        if index < chunk_count(upload), do: {:ok, index}, else: {:error, :invalid_params}
+
+      _ ->
+        {:error, :invalid_params}
+    end
+  end
+
+  # Raw bytes; Plug.Parsers passes application/octet-stream through unread
+  defp read_chunk(conn) do
+    case Plug.Conn.read_body(conn, length: @max_chunk_size) do
+      {:ok, body, conn} -> {:ok, body, conn}
+      {:more, _body, _conn} -> {:error, "Chunk is too large"}
+      {:error, reason} -> {:error, reason}
+    end
+  end
+
+  defp check_complete(upload) do
+    if length(received_chunks(upload)) == chunk_count(upload) do
+      :ok
+    else
+      {:error, "Upload is missing chunks"}
+    end
+  end
+
+  defp assemble(upload) do
+    content =
+      0..(chunk_count(upload) - 1)
+      |> Enum.map(&File.read!(chunk_path(upload.id, &1)))
+      |> IO.iodata_to_binary()
+
+    if byte_size(content) == upload.size do
+      {:ok, content}
+    else
+      {:error, "Upload size does not match"}
+    end
+  end
+
+  # Every chunk written creates a file, so the session directory's mtime is its last activity
+  defp sweep_stale_sessions do
+    cutoff = System.os_time(:second) - @session_ttl_seconds
+
+    with {:ok, ids} <- File.ls(uploads_dir()) do
+      for id <- ids,
+          dir = Path.join(uploads_dir(), id),
+          {:ok, %File.Stat{mtime: mtime}} <- [File.stat(dir, time: :posix)],
+          mtime < cutoff do
+        File.rm_rf(dir)
+      end
+    end
+
+    :ok
+  end
+
+  defp positive_integer(value) when is_integer(value) and value > 0, do: {:ok, value}
+  defp positive_integer(_value), do: {:error, :invalid_params}
+
+  defp uploads_dir, do: Path.join(System.tmp_dir!(), "dirup_uploads")
+  defp session_dir(id), do: Path.join(uploads_dir(), id)
+  defp meta_path(id), do: Path.join(session_dir(id), "meta")
+  defp chunk_path(id, index), do: Path.join(session_dir(id), "chunk-#{index}")
+end
@@ -0,0 +1,16 @@
+defmodule DirupWeb.API.UploadsJSON do
+  @doc """
+  Renders a resumable upload session and the chunks the server has.
+  """
+  def show(%{upload: upload, received_chunks: received_chunks}) do
+    %{
+      data: %{
+        id: upload.id,
+        filename: upload.filename,
+        size: upload.size,
+        chunk_size: upload.chunk_size,
+        received_chunks: received_chunks
+      }
+    }
+  end
+end
@@ -0,0 +1,25 @@
+defmodule DirupWeb.SessionTokenController do
+  @moduledoc """
+  Re-issues the API token for the signed-in browser session, so the Svelte app
+  can renew the token it was rendered with without reloading the page.
+
+  The `:browser` pipeline has already signed a fresh token
+  (`DirupWeb.UserAuth.put_user_token/2`).
+  """
+  use DirupWeb, :controller
+
+  # Matches the max age `DirupWeb.UserSocket` accepts
+  @token_max_age 1_209_600
+
+  def create(conn, _params) do
+    case conn.assigns[:user_token] do
+      nil ->
+        conn
+        |> put_status(:unauthorized)
+        |> json(%{error: "Authentication required"})
+
+      token ->
+        json(conn, %{token: token, expires_in: @token_max_age})
+    end
+  end
+end
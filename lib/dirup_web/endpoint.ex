@@ -15,6 +15,11 @@ defmodule DirupWeb.Endpoint do
     websocket: [connect_info: [session: @session_options]],
     longpoll: [connect_info: [session: @session_options]]
 
+  # Channels used by the Svelte app (execution updates, presence, collaboration)
+  socket "/socket", DirupWeb.UserSocket,
+    websocket: true,
+    longpoll: false
+
   # SafeMD Scan WebSocket for streaming markdown analysis
   socket "/scan/websocket", DirupWeb.ScanSocket,
     websocket: [timeout: 45_000],
@@ -173,6 +173,15 @@ defmodule DirupWeb.Router do
     # File Upload (separate endpoint for multipart)
     post "/workspaces/:workspace_id/files/upload", FilesController, :upload
 
+    # Resumable uploads: session, raw chunks, then complete
+    scope "/workspaces/:workspace_id/files/uploads" do
+      post "/", UploadsController, :create
+      get "/:id", UploadsController, :show
+      delete "/:id", UploadsController, :delete
+      put "/:id/chunks/:index", UploadsController, :chunk
+      post "/:id/complete", UploadsController, :complete
+    end
+
     # Virtual File System
     scope "/workspaces/:workspace_id/storage" do
       get "/vfs", Storage.VFSController, :index
@@ -324,6 +333,9 @@ defmodule DirupWeb.Router do
     auth_routes AuthController, Dirup.Accounts.User, path: "/auth"
     sign_out_route AuthController
 
+    # API token renewal for the Svelte app (cookie session + CSRF token)
+    post "/session/token", SessionTokenController, :create
+
     sign_in_route register_path: "/register",
                   reset_path: "/reset",
                   auth_routes_prefix: "/auth",